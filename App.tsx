@@ -1,32 +1,102 @@
 
-import React, { useState, useMemo, useEffect, useDeferredValue } from 'react';
-import { Search, X, Moon, Sun, MapPin, FilterX, Loader2, AlertCircle } from 'lucide-react';
-import { YerlesimYeri } from './types';
-import { normalizeTurkish } from './utils/textUtils';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Search, X, Moon, Sun, MapPin, FilterX, Loader2, AlertCircle, Link2Off, Table2, ListChecks, ShieldAlert, GitCompare, BarChart3, Map as MapIcon, WifiOff, RefreshCw, Database, FileUp, ChevronRight, Rows3, FolderTree, Star, Printer, Languages } from 'lucide-react';
+import { AppView, DataQualityReport, DatasetInfo, Filters, ListMode, Locale, PrintJob, SavedSearch, SearchSuggestion, SettlementField, SettlementTreeNode, WatchedSettlement, Watchlist, ShardManifest, SortKey, ValidationPolicy, YerlesimYeri } from './types';
+import { EMPTY_FILTERS, EXACT_PREFIX, SanitizedFilters, formatFilterValue, sanitizeFilters } from './utils/filters';
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS, UrlState, parseUrlState, serializeUrlState } from './utils/urlState';
+import { ariaSort, serializeSort, toggleSort } from './utils/sorting';
+import { TREE_LEVELS, treeNodeFilters } from './utils/settlementTree';
+import { QuerySyntaxError, parseSearchQuery } from './utils/searchQuery';
+import { checkWatchlist, loadWatchlist, saveWatchlist, watchKey } from './utils/watchlist';
+import { LOCALES } from './utils/i18n';
+import { DataValidationError, ValidationResult, dataErrorMessage, validateDataset } from './utils/validation';
+import { DatasetVersion, StoredDataset, datasetStoreKey, datasetVersionLabel, fetchLatestDataset, loadStoredDataset, saveStoredDataset } from './utils/datasetStore';
+import { fetchDatasetRegistry, findDataset } from './utils/datasetRegistry';
+import { isShardManifest, shardBaseUrl } from './utils/shardFormat';
+import { useSearchEngine } from './hooks/useSearchEngine';
+import { useShardedDataset } from './hooks/useShardedDataset';
+import { useVirtualRows } from './hooks/useVirtualRows';
+import { useI18n } from './hooks/useI18n';
 import Pagination from './components/Pagination';
+import ExportMenu from './components/ExportMenu';
+import BatchCheck from './components/BatchCheck';
+import DataQualityPanel from './components/DataQualityPanel';
+import DatasetDiff from './components/DatasetDiff';
+import ShardPackageExport from './components/ShardPackageExport';
+import StatsDashboard from './components/StatsDashboard';
+import ProvinceMap from './components/ProvinceMap';
+import SettlementBrowser from './components/SettlementBrowser';
+import WatchlistPanel from './components/WatchlistPanel';
+import PrintView from './components/PrintView';
+import ImportPanel from './components/ImportPanel';
+import SettlementDetails from './components/SettlementDetails';
+import SortableHeader from './components/SortableHeader';
+import SearchSuggestions, { suggestionOptionId } from './components/SearchSuggestions';
 import { yerlesimVerileri as sampleData } from './data';
 
-const ITEMS_PER_PAGE = 50;
+// Reference date of the TÜİK population data the list is based on (hosts without a dataset registry)
+const DATASET_DATE = '31.12.2022';
+const VALIDATION_POLICY_KEY = 'veriDogrulamaPolitikasi';
+const PAGE_SIZE_KEY = 'sayfaBoyutu';
+const LIST_MODE_KEY = 'listeGorunumu';
+// Height of a collapsed table row, used by the scrolling list until rows are measured
+const ROW_HEIGHT_ESTIMATE = 53;
+// Reports longer than this ask before building the print layout
+const PRINT_CONFIRM_ROWS = 5000;
+// Views that would report ils still being downloaded as empty or missing
+const WHOLE_LIST_VIEWS: AppView[] = ['harita', 'gezin', 'toplu', 'karsilastir'];
 
 function App() {
   const [yerlesimVerileri, setYerlesimVerileri] = useState<YerlesimYeri[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [usingSampleData, setUsingSampleData] = useState(false);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const [datasetVersion, setDatasetVersion] = useState<DatasetVersion | null>(null);
+  const [availableUpdate, setAvailableUpdate] = useState<StoredDataset | null>(null);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [manifest, setManifest] = useState<ShardManifest | null>(null);
+  const [loadAllShards, setLoadAllShards] = useState(false);
+  const [shardRetry, setShardRetry] = useState(0);
+  const [validationPolicy, setValidationPolicy] = useState<ValidationPolicy>(
+    () => (localStorage.getItem(VALIDATION_POLICY_KEY) === 'reddet' ? 'reddet' : 'karantina')
+  );
+  const { locale, setLocale, t, tx, formatNumber } = useI18n();
 
-  const [searchTerm, setSearchTerm] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
+  // Initial view comes from the query string so shared links open the same view
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const [searchTerm, setSearchTerm] = useState(initialUrlState.searchTerm);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  // Suggestion highlighted with the arrow keys, -1 for none
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const [currentPage, setCurrentPage] = useState(initialUrlState.page);
   const [darkMode, setDarkMode] = useState(false);
-  const [filters, setFilters] = useState({
-    il: '',
-    ilce: '',
-    belediye: '',
-    mahalle: '',
-    durum: ''
+  const [view, setView] = useState<AppView>('liste');
+  const [filters, setFilters] = useState<Filters>(initialUrlState.filters);
+  const [sort, setSort] = useState<SortKey[]>(initialUrlState.sort);
+  const [datasetId, setDatasetId] = useState(initialUrlState.dataset);
+  // Lists of the dataset registry; null until it is checked, empty when the host serves a single list
+  const [datasets, setDatasets] = useState<DatasetInfo[] | null>(null);
+  const [droppedUrlFilters, setDroppedUrlFilters] = useState<SanitizedFilters['dropped']>([]);
+  // Rows with their detail panel open; records are compared by identity
+  const [expandedRows, setExpandedRows] = useState<Set<YerlesimYeri>>(() => new Set());
+  // Page size and list mode are per-device preferences, not part of shared links
+  const [pageSize, setPageSize] = useState(() => {
+    const stored = Number(localStorage.getItem(PAGE_SIZE_KEY));
+    return PAGE_SIZE_OPTIONS.includes(stored) ? stored : DEFAULT_PAGE_SIZE;
   });
-  
-  // Use deferred value for smoother UI
-  const deferredSearchTerm = useDeferredValue(searchTerm);
+  const [listMode, setListMode] = useState<ListMode>(
+    () => (localStorage.getItem(LIST_MODE_KEY) === 'kaydirmali' ? 'kaydirmali' : 'sayfali')
+  );
+  const tableContainerRef = useRef<HTMLDivElement>(null);
+  const [watchlist, setWatchlist] = useState<Watchlist>(loadWatchlist);
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+
+  // Next URL sync uses replaceState instead of pushState (restores and corrections should not add history entries)
+  const replaceHistoryRef = useRef(false);
+  // URL filters wait for their shards before being checked against the data
+  const urlCheckPendingRef = useRef(false);
 
   // Initialize Theme
   useEffect(() => {
@@ -44,160 +114,552 @@ function App() {
     }
   }, [darkMode]);
 
-  // FETCH DATA FROM JSON FILE
+  const dataset = datasets ? findDataset(datasets, datasetId) : null;
+  const datasetDate = dataset ? dataset.referenceDate : DATASET_DATE;
+  const storeKey = datasetStoreKey(dataset?.id);
+
+  useEffect(() => {
+    fetchDatasetRegistry().then(setDatasets);
+  }, []);
+
+  // A link to a list the registry no longer has opens the default list
   useEffect(() => {
-    const fetchData = async () => {
+    if (datasets && datasetId && !datasets.some(entry => entry.id === datasetId)) {
+      replaceHistoryRef.current = true;
+      setDatasetId('');
+    }
+  }, [datasets, datasetId]);
+
+  // Applies a state read from the URL, removing filter values that don't exist in the data.
+  // Without data (sharded list) the check waits until the shards the view needs are loaded.
+  const applyUrlState = (state: UrlState, data: YerlesimYeri[] | null) => {
+    const { filters: validFilters, dropped } = data ? sanitizeFilters(state.filters, data) : { filters: state.filters, dropped: [] };
+    urlCheckPendingRef.current = data === null;
+    replaceHistoryRef.current = true;
+    setSearchTerm(state.searchTerm);
+    setFilters(validFilters);
+    setCurrentPage(state.page);
+    setSort(state.sort);
+    setDroppedUrlFilters(dropped);
+  };
+
+  // Parses data.json or a shard manifest; list rows are validated, shards are validated as they load.
+  // Throws DataValidationError when the list can't be shown.
+  const parseDataset = (text: string): ShardManifest | ValidationResult => {
+    let rawData: unknown;
+    try {
+      rawData = JSON.parse(text);
+    } catch {
+      throw new DataValidationError('gecersiz-json', { file: 'data.json' });
+    }
+    if (isShardManifest(rawData)) return rawData;
+
+    // Schema validation: invalid rows are quarantined instead of being rendered
+    const result = validateDataset(rawData);
+    const { data, report } = result;
+
+    if (validationPolicy === 'reddet' && report.quarantinedRows.length > 0) {
+      throw new DataValidationError('reddedildi', { count: report.quarantinedRows.length }, report);
+    }
+    if (data.length === 0) {
+      throw new DataValidationError('gecerli-kayit-yok', {}, report);
+    }
+    return result;
+  };
+
+  const openDataset = (entry: StoredDataset, urlState: UrlState) => {
+    const parsed = parseDataset(entry.text);
+    if (isShardManifest(parsed)) {
+      setManifest(parsed);
+      setLoadAllShards(false);
+      setYerlesimVerileri([]);
+      setDataQuality(null);
+      applyUrlState(urlState, null);
+    } else {
+      setManifest(null);
+      setYerlesimVerileri(parsed.data);
+      setDataQuality(parsed.report);
+      applyUrlState(urlState, parsed.data);
+    }
+    setDatasetVersion(entry.version);
+    setUsingSampleData(false);
+    setError(null);
+  };
+
+  // LOAD DATA: the copy stored on this device first, then the server's manifest or data.json
+  // (or the selected list of the dataset registry)
+  useEffect(() => {
+    if (!datasets) return;
+    // Set when another list is picked before this one finished loading
+    let cancelled = false;
+
+    const showSampleData = (err: unknown) => {
+      console.warn("Tam liste yüklenemedi, örnek veriler kullanılıyor.", err);
+      // Hata durumunda örnek veriye geri dön (Fallback)
+      setManifest(null);
+      setYerlesimVerileri(sampleData);
+      setUsingSampleData(true);
+      setDatasetVersion(null);
+      applyUrlState(parseUrlState(window.location.search), sampleData);
+    };
+
+    const loadData = async () => {
+      setLoading(true);
+      setOffline(false);
+      setAvailableUpdate(null);
+      setError(null);
+
+      // Lookups keep working without coverage from the last list that passed validation
+      const stored = await loadStoredDataset(storeKey);
+      if (cancelled) return;
+      let storedShown = false;
+      if (stored) {
+        try {
+          openDataset(stored, parseUrlState(window.location.search));
+          storedShown = true;
+          setLoading(false);
+        } catch (err) {
+          console.warn('Cihazdaki kayıtlı veri kullanılamadı.', err);
+        }
+      }
+
       try {
-        setLoading(true);
-        // public/data.json dosyasını çekiyoruz
-        const response = await fetch('/data.json');
-        
-        if (!response.ok) {
-          throw new Error('Dosya sunucuda bulunamadı.');
+        // Only a failed download means offline; a list that downloads but fails validation is reported below
+        let latest: StoredDataset;
+        try {
+          latest = await fetchLatestDataset(dataset?.url);
+        } catch (err) {
+          if (cancelled) return;
+          if (storedShown) {
+            setOffline(true);
+            return;
+          }
+          showSampleData(err);
+          return;
         }
+        if (cancelled) return;
 
-        const rawData = await response.json();
-        
-        if (!Array.isArray(rawData)) {
-          throw new Error('Veri formatı hatalı.');
+        if (stored && storedShown) {
+          // A newer list is announced instead of being swapped in while the user works
+          if (latest.version.id !== stored.version.id) {
+            setAvailableUpdate(latest);
+          }
+          return;
         }
 
-        // Data Sanitization: Handle null/undefined values to prevent crashes
-        const data: YerlesimYeri[] = rawData.map((item: any) => ({
-          il: item.il || "",
-          ilce: item.ilce || "",
-          belediye: item.belediye || "",
-          mahalle: item.mahalle || "",
-          durum: item.durum || ""
-        }));
-
-        setYerlesimVerileri(data);
-        setUsingSampleData(false);
-        setError(null);
+        openDataset(latest, parseUrlState(window.location.search));
+        await saveStoredDataset(latest, storeKey);
       } catch (err) {
-        console.warn("Tam liste yüklenemedi, örnek veriler kullanılıyor.", err);
-        // Hata durumunda örnek veriye geri dön (Fallback)
-        setYerlesimVerileri(sampleData);
-        setUsingSampleData(true);
+        if (cancelled) return;
+        // A file that loads but fails validation is reported instead of silently replaced
+        if (err instanceof DataValidationError) {
+          setDataQuality(err.report || null);
+          setError(dataErrorMessage(locale, err));
+          return;
+        }
+        showSampleData(err);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
-    fetchData();
-  }, []);
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [validationPolicy, datasets, storeKey]);
 
-  // 1. First apply Global Search
-  const searchedData = useMemo(() => {
-    if (!deferredSearchTerm) return yerlesimVerileri;
+  const handleApplyUpdate = async () => {
+    if (!availableUpdate) return;
+    const update = availableUpdate;
+    setAvailableUpdate(null);
 
-    const normalizedQuery = normalizeTurkish(deferredSearchTerm);
+    try {
+      // Keep the current search, dropping filter values the new list no longer has
+      openDataset(update, { searchTerm, filters, page: currentPage, sort, dataset: datasetId });
+      await saveStoredDataset(update, storeKey);
+    } catch (err) {
+      // Rethrowing here would only end up as an unhandled rejection, so storage errors are shown too
+      const message = err instanceof DataValidationError ? dataErrorMessage(locale, err) : err instanceof Error ? err.message : String(err);
+      setUpdateError(t('error.updateFailed', { label: datasetVersionLabel(locale, update.version), error: message }));
+    }
+  };
 
-    return yerlesimVerileri.filter((item) => {
-      return (
-        normalizeTurkish(item.il).includes(normalizedQuery) ||
-        normalizeTurkish(item.ilce).includes(normalizedQuery) ||
-        normalizeTurkish(item.belediye).includes(normalizedQuery) ||
-        normalizeTurkish(item.mahalle).includes(normalizedQuery) ||
-        normalizeTurkish(item.durum).includes(normalizedQuery)
-      );
-    });
-  }, [deferredSearchTerm, yerlesimVerileri]);
-
-  // 2. Then apply Column Filters on top of searched data
-  const filteredData = useMemo(() => {
-    return searchedData.filter((item) => {
-      return (
-        (filters.il === '' || item.il === filters.il) &&
-        (filters.ilce === '' || item.ilce === filters.ilce) &&
-        (filters.belediye === '' || item.belediye === filters.belediye) &&
-        (filters.mahalle === '' || normalizeTurkish(item.mahalle).includes(normalizeTurkish(filters.mahalle))) &&
-        (filters.durum === '' || item.durum === filters.durum)
-      );
-    });
-  }, [searchedData, filters]);
-
-  // Calculate Options for Dropdowns
-  const getOptions = (key: keyof YerlesimYeri) => {
-    const otherFilters = { ...filters };
-    // @ts-ignore
-    delete otherFilters[key];
-
-    const dataForOptions = searchedData.filter(item => {
-      return Object.entries(otherFilters).every(([k, v]) => {
-        if (!v) return true;
-        if (k === 'mahalle') {
-          return normalizeTurkish(item.mahalle).includes(normalizeTurkish(v as string));
-        }
-        return item[k as keyof YerlesimYeri] === v;
-      });
-    });
+  const handlePolicyChange = (policy: ValidationPolicy) => {
+    localStorage.setItem(VALIDATION_POLICY_KEY, policy);
+    setValidationPolicy(policy);
+  };
 
-    const uniqueValues = new Set(dataForOptions.map(item => item[key]));
-    return Array.from(uniqueValues)
-      .filter(val => typeof val === 'string' && val !== "") // Remove non-strings and empty strings from options
-      .sort((a, b) => (a as string).localeCompare(b as string, 'tr'));
+  const handleUseSampleData = () => {
+    setManifest(null);
+    setYerlesimVerileri(sampleData);
+    setUsingSampleData(true);
+    setDataQuality(null);
+    setDatasetVersion(null);
+    setError(null);
+    applyUrlState(parseUrlState(window.location.search), sampleData);
   };
 
-  const ilOptions = useMemo(() => getOptions('il'), [searchedData, filters.ilce, filters.belediye, filters.mahalle, filters.durum]);
-  const ilceOptions = useMemo(() => getOptions('ilce'), [searchedData, filters.il, filters.belediye, filters.mahalle, filters.durum]);
-  const belediyeOptions = useMemo(() => getOptions('belediye'), [searchedData, filters.il, filters.ilce, filters.mahalle, filters.durum]);
-  const durumOptions = useMemo(() => getOptions('durum'), [searchedData, filters.il, filters.ilce, filters.belediye, filters.mahalle]);
+  // Imported lists are previewed in this session only; a reload shows the published list again
+  const handleOpenImported = (data: YerlesimYeri[], report: DataQualityReport, fileName: string) => {
+    setManifest(null);
+    setYerlesimVerileri(data);
+    setDataQuality(report);
+    setDatasetVersion({ id: 'ice-aktarilan', file: fileName });
+    setUsingSampleData(false);
+    setAvailableUpdate(null);
+    setError(null);
+    applyUrlState({ searchTerm, filters, page: 1, sort, dataset: datasetId }, data);
+    setView('liste');
+  };
+
+  // Sharded list: only the il being looked at is downloaded, everything once a view needs the whole country
+  const neededShards = useMemo(() => {
+    if (!manifest) return [];
+    if (view === 'ice-aktar') return [];
+    if (loadAllShards || (view !== 'liste' && view !== 'istatistik')) return manifest.shards;
+    if (filters.il) return manifest.shards.filter(info => info.il === filters.il);
+    const searching = searchTerm.trim() !== '' || filters.ilce !== '' || filters.belediye !== '' || filters.mahalle !== '' || filters.durum !== '';
+    return searching || view === 'istatistik' ? manifest.shards : [];
+  }, [manifest, loadAllShards, view, filters, searchTerm, shardRetry]);
+
+  const shards = useShardedDataset(manifest, neededShards, validationPolicy, dataset ? shardBaseUrl(dataset.url) : undefined);
+  const listData = manifest ? shards.rows : yerlesimVerileri;
+  const qualityReport = manifest ? shards.report : dataQuality;
+  const allShardsLoaded = !manifest || shards.loadedCount === manifest.shards.length;
+
+  useEffect(() => {
+    saveWatchlist(watchlist);
+  }, [watchlist]);
+
+  // The print layout is rendered first, then the browser's print dialog (which also saves PDFs) opens
+  useEffect(() => {
+    if (!printJob) return;
+    const handleAfterPrint = () => setPrintJob(null);
+    window.addEventListener('afterprint', handleAfterPrint);
+    window.print();
+    return () => window.removeEventListener('afterprint', handleAfterPrint);
+  }, [printJob]);
+
+  // Watched settlements against the loaded list; a changed status stays flagged until acknowledged
+  const watchedKeys = useMemo(() => new Set(watchlist.settlements.map(watchKey)), [watchlist]);
+  const watchChecks = useMemo(
+    () => checkWatchlist(watchlist.settlements, listData, allShardsLoaded, datasetId),
+    [watchlist, listData, allShardsLoaded, datasetId]
+  );
+  const changedWatchCount = Array.from(watchChecks.values()).filter(check => check.state === 'degisti').length;
+
+  // Check URL filters of a sharded list once their shards are in
+  useEffect(() => {
+    if (!manifest || !shards.ready || shards.pending || !urlCheckPendingRef.current) return;
+    applyUrlState({ searchTerm, filters, page: currentPage, sort, dataset: datasetId }, shards.rows);
+  }, [manifest, shards.ready, shards.pending, shards.rows]);
+
+  // Restore the view on browser back/forward
+  useEffect(() => {
+    if (loading) return;
+
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search);
+      // Another list is loaded first; loading applies the rest of the URL
+      if (state.dataset !== datasetId) {
+        setDatasetId(state.dataset);
+        return;
+      }
+      applyUrlState(state, manifest ? null : yerlesimVerileri);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [loading, manifest, yerlesimVerileri, datasetId]);
+
+  // Write the current view to the URL
+  useEffect(() => {
+    if (loading) return;
+
+    const query = serializeUrlState({ searchTerm, filters, page: currentPage, sort, dataset: datasetId });
+    const replace = replaceHistoryRef.current;
+    replaceHistoryRef.current = false;
+
+    if (query === window.location.search) return;
+
+    // Typing in the text inputs only replaces the current entry; selections and page changes add a new one
+    const current = parseUrlState(window.location.search);
+    const onlyTextChanged =
+      current.page === currentPage &&
+      current.dataset === datasetId &&
+      serializeSort(current.sort) === serializeSort(sort) &&
+      (['il', 'ilce', 'belediye', 'durum'] as (keyof Filters)[]).every(key => current.filters[key] === filters[key]);
+
+    const url = `${window.location.pathname}${query}${window.location.hash}`;
+    if (replace || onlyTextChanged) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [loading, searchTerm, filters, currentPage, sort, datasetId]);
+
+  // Search, column filters and dropdown options are computed off the main thread
+  const searchQuery = useMemo(() => ({ searchTerm, filters, sort }), [searchTerm, filters, sort]);
+
+  // Shown under the search box; the search engine falls back to plain text for the same input
+  const querySyntaxError = useMemo(() => {
+    try {
+      parseSearchQuery(searchTerm);
+      return null;
+    } catch (err) {
+      if (err instanceof QuerySyntaxError) return err;
+      throw err;
+    }
+  }, [searchTerm]);
+  const { rows: filteredData, facets, suggestions, corrections, pending: searchPending } = useSearchEngine(listData, searchQuery);
+  const showSuggestions = suggestionsOpen && suggestions.length > 0;
+
+  useEffect(() => {
+    setActiveSuggestion(-1);
+  }, [suggestions]);
+
+  // Until every shard is loaded the il dropdown lists the manifest, not just the loaded ils
+  const ilOptions = manifest && !allShardsLoaded ? manifest.shards.map(info => ({ value: info.il, count: info.rows })) : facets.il;
 
   // Calculate Pagination
-  const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE);
-  
-  const currentData = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    return filteredData.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-  }, [currentPage, filteredData]);
+  const totalPages = Math.ceil(filteredData.length / pageSize);
+  const scrollMode = listMode === 'kaydirmali';
+
+  // Scrolling mode renders only the rows near the viewport of the table container
+  const virtualRows = useVirtualRows(tableContainerRef, filteredData.length, ROW_HEIGHT_ESTIMATE, filteredData, scrollMode && view === 'liste');
 
+  // Index of the first displayed row in filteredData
+  const rowOffset = scrollMode ? virtualRows.start : (currentPage - 1) * pageSize;
+  const currentData = useMemo(
+    () => filteredData.slice(rowOffset, scrollMode ? virtualRows.end : rowOffset + pageSize),
+    [filteredData, rowOffset, scrollMode, virtualRows.end, pageSize]
+  );
+
+  // Clamp out-of-range pages (e.g. "sayfa=99" in a link) once the result count is known
   useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, filters]);
+    if (loading || searchPending || shards.pending || scrollMode) return;
+    if (currentPage > 1 && currentPage > totalPages) {
+      replaceHistoryRef.current = true;
+      setCurrentPage(Math.max(1, totalPages));
+    }
+  }, [loading, searchPending, shards.pending, scrollMode, currentPage, totalPages]);
 
   const handleReset = () => {
     setSearchTerm('');
-    setFilters({
-      il: '',
-      ilce: '',
-      belediye: '',
-      mahalle: '',
-      durum: ''
-    });
+    setFilters(EMPTY_FILTERS);
+    setCurrentPage(1);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setSuggestionsOpen(true);
     setCurrentPage(1);
   };
 
-  const handleFilterChange = (key: keyof typeof filters, value: string) => {
+  const handleFilterChange = (key: keyof Filters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
+    setCurrentPage(1);
+  };
+
+  const handleApplyFilters = (values: Partial<Filters>) => {
+    setFilters(prev => ({ ...prev, ...values }));
+    setCurrentPage(1);
+  };
+
+  // Shift-click adds the column as a further sort key
+  const handleSortClick = (field: SettlementField, e: React.MouseEvent) => {
+    setSort(prev => toggleSort(prev, field, e.shiftKey));
+    setCurrentPage(1);
+  };
+
+  // Keeps the first row of the current page on screen
+  const handlePageSizeChange = (size: number) => {
+    localStorage.setItem(PAGE_SIZE_KEY, String(size));
+    setCurrentPage(Math.floor(((currentPage - 1) * pageSize) / size) + 1);
+    setPageSize(size);
+  };
+
+  // The scrolling list has no pages; the page number is dropped from the URL
+  const handleListModeChange = (mode: ListMode) => {
+    localStorage.setItem(LIST_MODE_KEY, mode);
+    setListMode(mode);
+    if (mode === 'kaydirmali' && currentPage !== 1) {
+      replaceHistoryRef.current = true;
+      setCurrentPage(1);
+    }
+  };
+
+  const toggleWatch = (item: YerlesimYeri) => {
+    const key = watchKey(item);
+    setWatchlist(prev => prev.settlements.some(entry => watchKey(entry) === key)
+      ? { ...prev, settlements: prev.settlements.filter(entry => watchKey(entry) !== key) }
+      : {
+          ...prev,
+          settlements: [
+            ...prev.settlements,
+            { il: item.il, ilce: item.ilce, belediye: item.belediye, mahalle: item.mahalle, durum: item.durum, dataset: datasetId, note: '', addedAt: new Date().toISOString() }
+          ]
+        });
+  };
+
+  const handlePrintReport = () => {
+    // The rows would still be those of the previous search
+    if (searchPending) return;
+    if (filteredData.length > PRINT_CONFIRM_ROWS && !window.confirm(t('print.confirm', { count: filteredData.length }))) return;
+    setPrintJob({ kind: 'rapor', rows: filteredData, searchTerm, filters });
+  };
+
+  const toggleRow = (item: YerlesimYeri) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev);
+      if (!next.delete(item)) next.add(item);
+      return next;
+    });
+  };
+
+  // Map click: show the province in the main table, dropping narrower filters from another il
+  const handleSelectIl = (il: string) => {
+    handleApplyFilters({ il, ilce: '', belediye: '' });
+    setView('liste');
+  };
+
+  // Map district list: the ilçe filter replaces narrower filters as well
+  const handleSelectIlce = (il: string, ilce: string) => {
+    handleApplyFilters({ il, ilce, belediye: '', mahalle: '' });
+    setView('liste');
+  };
+
+  // Watchlist: the search term is cleared so the settlement is not hidden by it. The row found in
+  // the current list is selected, as its spelling may differ from the watched one
+  const handleShowWatched = (item: WatchedSettlement) => {
+    const place = watchChecks.get(watchKey(item))?.current || item;
+    setSearchTerm('');
+    handleApplyFilters(treeNodeFilters({ depth: TREE_LEVELS.length - 1, values: TREE_LEVELS.map(field => place[field]) }));
+    setView('liste');
+  };
+
+  // Saved filters may name places the loaded list doesn't have; they are dropped and reported like link filters
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    applyUrlState({ searchTerm: search.searchTerm, filters: search.filters, page: 1, sort: search.sort, dataset: datasetId }, manifest ? null : yerlesimVerileri);
+    setView('liste');
+  };
+
+  // A suggestion replaces the typed text with the column filters of the place
+  const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
+    setSearchTerm('');
+    handleApplyFilters(treeNodeFilters(suggestion));
+    setSuggestionsOpen(false);
+  };
+
+  // "Did you mean" link: searches the corrected name without opening the dropdown
+  const handleApplyCorrection = (correction: string) => {
+    setSearchTerm(correction);
+    setCurrentPage(1);
+  };
+
+  // Combobox keys: arrows move through the suggestions and wrap around, Enter picks, Escape closes
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      if (!showSuggestions) return;
+      e.preventDefault();
+      setSuggestionsOpen(false);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      if (!showSuggestions) {
+        setSuggestionsOpen(true);
+        setActiveSuggestion(e.key === 'ArrowDown' ? 0 : suggestions.length - 1);
+        return;
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion(prev => (prev === -1 && step === -1 ? suggestions.length - 1 : (prev + step + suggestions.length) % suggestions.length));
+    } else if (e.key === 'Enter' && showSuggestions && activeSuggestion !== -1) {
+      e.preventDefault();
+      handleSelectSuggestion(suggestions[activeSuggestion]);
+    }
+  };
+
+  // Another list of the registry: search and filters are kept, values the list doesn't have are dropped
+  const handleDatasetChange = (id: string) => {
+    setDatasetId(id);
+    setCurrentPage(1);
   };
 
+  // Browser click: show the place in the main table
+  const handleSelectTreeNode = (node: SettlementTreeNode) => {
+    setSearchTerm('');
+    handleApplyFilters(treeNodeFilters(node));
+    setView('liste');
+  };
+
+  // Only shown when the host publishes more than one list
+  const datasetSelector = dataset && datasets && datasets.length > 1 && (
+    <label className="flex items-center gap-1.5 px-2 py-1.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+      <Database size={18} aria-hidden="true" />
+      <span className="sr-only">{t('app.dataset')}</span>
+      <select
+        value={dataset.id}
+        onChange={(e) => handleDatasetChange(e.target.value)}
+        title={t('app.datasetDate', { date: dataset.referenceDate })}
+        className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer max-w-[14rem]"
+      >
+        {datasets.map(entry => (
+          <option key={entry.id} value={entry.id} className="text-gray-900">{entry.title}</option>
+        ))}
+      </select>
+    </label>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white gap-4">
         <Loader2 className="animate-spin h-10 w-10 text-blue-600" />
-        <p className="text-lg font-medium">Veriler Yükleniyor...</p>
+        <p className="text-lg font-medium">{t('app.loading')}</p>
       </div>
     );
   }
 
-  if (error) {
+  const fatalError = error || shards.rejected;
+  if (fatalError) {
     return (
       <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900 text-red-600 gap-4 p-4 text-center">
         <FilterX size={48} />
-        <p className="text-xl font-bold">{error}</p>
-        <button 
-          onClick={() => window.location.reload()}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          Sayfayı Yenile
-        </button>
+        <p className="text-xl font-bold">{fatalError}</p>
+        <div className="flex flex-wrap justify-center gap-2">
+          {datasetSelector}
+          <button 
+            onClick={() => window.location.reload()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {t('app.reload')}
+          </button>
+          {validationPolicy === 'reddet' && qualityReport && qualityReport.validRows > 0 && (
+            <button
+              onClick={() => handlePolicyChange('karantina')}
+              className="px-4 py-2 border border-blue-600 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              {t('app.continueQuarantine')}
+            </button>
+          )}
+          <button
+            onClick={handleUseSampleData}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            {t('app.continueSample')}
+          </button>
+        </div>
+        {qualityReport && (
+          <div className="w-full mt-6 text-left">
+            <DataQualityPanel report={qualityReport} policy={validationPolicy} onPolicyChange={handlePolicyChange} />
+          </div>
+        )}
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen w-full p-4 md:p-8 transition-colors duration-200 flex flex-col bg-gray-50 dark:bg-gray-900">
+    <div className="min-h-screen w-full p-4 md:p-8 transition-colors duration-200 flex flex-col bg-gray-50 dark:bg-gray-900 print:hidden">
       
       {/* Header Section */}
       <header className="mb-6 flex flex-col gap-4">
@@ -208,191 +670,571 @@ function App() {
             </div>
             <div>
                 <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-                Kırsal Alan Listesi
+                {t('app.title')}
                 </h1>
                 <p className="text-sm text-gray-500 dark:text-gray-400 max-w-3xl mt-1">
-                TÜİK tarafından 31.12.2022 tarihli nüfus verilerine göre kır statüsünde olduğu belirlenen yerleşim yerleri IPARD III Programı için kırsal alan olarak tanımlanmaktadır.
+                {dataset ? dataset.description : t('app.intro', { date: DATASET_DATE })}
                 </p>
+                {datasetVersion && (
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{t('app.datasetVersion', { label: datasetVersionLabel(locale, datasetVersion) })}</p>
+                )}
             </div>
             </div>
 
+            <div className="flex items-center gap-2 shrink-0">
+            {datasetSelector}
+            <label className="flex items-center gap-1.5 px-2 py-1.5 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                <Languages size={18} aria-hidden="true" />
+                <span className="sr-only">{t('app.language')}</span>
+                <select
+                    value={locale}
+                    onChange={(e) => setLocale(e.target.value as Locale)}
+                    className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer"
+                >
+                    {LOCALES.map(option => (
+                        <option key={option.id} value={option.id} lang={option.id} className="text-gray-900">{option.label}</option>
+                    ))}
+                </select>
+            </label>
             <button
             onClick={() => setDarkMode(!darkMode)}
-            className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors shrink-0"
-            aria-label="Tema Değiştir"
+            className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            aria-label={t('app.toggleTheme')}
             >
             {darkMode ? <Sun size={20} /> : <Moon size={20} />}
             </button>
+            </div>
         </div>
 
         {usingSampleData && (
             <div className="w-full bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 p-4 rounded-lg flex items-start gap-3">
                 <AlertCircle className="text-yellow-600 dark:text-yellow-400 shrink-0 mt-0.5" size={20} />
                 <div className="text-sm text-yellow-800 dark:text-yellow-200">
-                    <p className="font-bold mb-1">Örnek Veriler Gösteriliyor</p>
+                    <p className="font-bold mb-1">{t('banner.sample.title')}</p>
                     <p>
-                        50.000 kayıtlık listeniz şu an yüklenemediği için örnek veriler listelenmektedir. 
-                        Tam listeyi görmek için <strong>public/data.json</strong> dosyasını GitHub'a "Upload files" yöntemiyle yüklediğinizden emin olun.
+                        {t('banner.sample.unavailable')}{' '}
+                        {tx('banner.sample.upload', { file: <strong>public/data.json</strong> })}{' '}
+                        {tx('banner.sample.import', { tab: <strong>{t('nav.ice-aktar')}</strong> })}
                     </p>
                 </div>
             </div>
         )}
-      </header>
 
-      {/* Search Section */}
-      <div className="mb-6 w-full max-w-4xl mx-auto">
-        <div className="relative flex items-center w-full shadow-sm rounded-lg">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="text-gray-400" size={20} />
-          </div>
-          <input
-            type="text"
-            className="block w-full pl-10 pr-12 py-3 border border-gray-300 dark:border-gray-600 rounded-lg leading-5 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors"
-            placeholder="İl, İlçe, Mahalle veya Durum ara..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-          />
-          {(searchTerm || Object.values(filters).some(v => v !== '')) && (
+        {availableUpdate && (
+            <div className="w-full bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+                <RefreshCw className="text-green-600 dark:text-green-400 shrink-0" size={20} />
+                <div className="text-sm text-green-800 dark:text-green-200 flex-grow">
+                    <p className="font-bold mb-1">{t('banner.update.title')}</p>
+                    <p>
+                        {t('banner.update.available', { label: datasetVersionLabel(locale, availableUpdate.version) })}
+                        {datasetVersion && <> {t('banner.update.current', { label: datasetVersionLabel(locale, datasetVersion) })}</>}
+                    </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <button
+                        onClick={handleApplyUpdate}
+                        className="px-3 py-1.5 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 transition-colors"
+                    >
+                        {t('banner.update.apply')}
+                    </button>
+                    <button
+                        onClick={() => setAvailableUpdate(null)}
+                        className="px-3 py-1.5 text-sm font-medium text-green-800 dark:text-green-200 rounded-md hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors"
+                    >
+                        {t('banner.update.later')}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {updateError && (
+            <div className="w-full bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 p-4 rounded-lg flex items-start gap-3">
+                <AlertCircle className="text-red-600 dark:text-red-400 shrink-0 mt-0.5" size={20} />
+                <p className="text-sm text-red-800 dark:text-red-200 flex-grow">{updateError} {t('banner.update.keepCurrent')}</p>
+                <button
+                    onClick={() => setUpdateError(null)}
+                    className="text-red-500 hover:text-red-700 dark:hover:text-red-300 shrink-0"
+                    aria-label={t('app.dismiss')}
+                >
+                    <X size={18} />
+                </button>
+            </div>
+        )}
+
+        {offline && datasetVersion && (
+            <div className="w-full bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-4 rounded-lg flex items-start gap-3">
+                <WifiOff className="text-gray-500 dark:text-gray-400 shrink-0 mt-0.5" size={20} />
+                <div className="text-sm text-gray-700 dark:text-gray-300">
+                    <p className="font-bold mb-1">{t('banner.offline.title')}</p>
+                    <p>{t('banner.offline.body', { label: datasetVersionLabel(locale, datasetVersion) })}</p>
+                </div>
+            </div>
+        )}
+
+        {manifest && (!allShardsLoaded || shards.error) && (
+            <div className="w-full bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+                {shards.pending
+                  ? <Loader2 className="animate-spin text-blue-600 dark:text-blue-400 shrink-0" size={20} />
+                  : <Database className="text-blue-600 dark:text-blue-400 shrink-0" size={20} />}
+                <div className="text-sm text-blue-800 dark:text-blue-200 flex-grow">
+                    <p className="font-bold mb-1">{t('banner.shards.title')}</p>
+                    <p>
+                        {t('banner.shards.progress', { total: manifest.shards.length, loaded: shards.loadedCount })}{' '}
+                        {t('banner.shards.hint')}
+                    </p>
+                    {shards.error && (
+                        <p className="mt-1 text-red-700 dark:text-red-300">
+                            {shards.error}{' '}
+                            <button onClick={() => setShardRetry(n => n + 1)} className="underline font-medium">{t('banner.shards.retry')}</button>
+                        </p>
+                    )}
+                </div>
+                {!allShardsLoaded && !loadAllShards && (
+                    <button
+                        onClick={() => setLoadAllShards(true)}
+                        className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors shrink-0"
+                    >
+                        {t('banner.shards.loadAll')}
+                    </button>
+                )}
+            </div>
+        )}
+
+        {qualityReport && qualityReport.quarantinedRows.length > 0 && (
+            <div className="w-full bg-orange-50 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 p-4 rounded-lg flex items-start gap-3">
+                <ShieldAlert className="text-orange-600 dark:text-orange-400 shrink-0 mt-0.5" size={20} />
+                <div className="text-sm text-orange-800 dark:text-orange-200">
+                    <p className="font-bold mb-1">{t('banner.quality.title')}</p>
+                    <p>
+                        {t('banner.quality.body', { count: qualityReport.quarantinedRows.length })}{' '}
+                        <button onClick={() => setView('kalite')} className="underline font-medium">
+                            {t('banner.quality.link')}
+                        </button>
+                    </p>
+                </div>
+            </div>
+        )}
+
+        {changedWatchCount > 0 && view !== 'takip' && (
+            <div className="w-full bg-orange-50 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 p-4 rounded-lg flex items-start gap-3">
+                <Star className="text-orange-600 dark:text-orange-400 shrink-0 mt-0.5" size={20} />
+                <div className="text-sm text-orange-800 dark:text-orange-200">
+                    <p className="font-bold mb-1">{t('banner.watch.title')}</p>
+                    <p>
+                        {t('banner.watch.body', { count: changedWatchCount })}{' '}
+                        <button onClick={() => setView('takip')} className="underline font-medium">
+                            {t('banner.watch.link')}
+                        </button>
+                    </p>
+                </div>
+            </div>
+        )}
+
+        {droppedUrlFilters.length > 0 && (
+            <div className="w-full bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 p-4 rounded-lg flex items-start gap-3">
+                <Link2Off className="text-blue-600 dark:text-blue-400 shrink-0 mt-0.5" size={20} />
+                <div className="text-sm text-blue-800 dark:text-blue-200 flex-grow">
+                    <p className="font-bold mb-1">{t('banner.urlFilters.title')}</p>
+                    <p>
+                        {t('banner.urlFilters.body')}{' '}
+                        {droppedUrlFilters.map(({ key, value }) => `${t(`field.${key}`)}: ${formatFilterValue(value)}`).join(', ')}
+                    </p>
+                </div>
+                <button
+                    onClick={() => setDroppedUrlFilters([])}
+                    className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 shrink-0"
+                    aria-label={t('app.dismiss')}
+                >
+                    <X size={18} />
+                </button>
+            </div>
+        )}
+
+        <nav className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+          {([
+            { id: 'liste', icon: Table2 },
+            { id: 'istatistik', icon: BarChart3 },
+            { id: 'harita', icon: MapIcon },
+            { id: 'gezin', icon: FolderTree },
+            { id: 'takip', icon: Star },
+            { id: 'toplu', icon: ListChecks },
+            { id: 'karsilastir', icon: GitCompare },
+            { id: 'kalite', icon: ShieldAlert },
+            { id: 'ice-aktar', icon: FileUp }
+          ] as { id: AppView; icon: typeof Table2 }[]).map(({ id, icon: Icon }) => (
             <button
-              onClick={handleReset}
-              className="absolute inset-y-0 right-0 pr-3 flex items-center gap-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
-              title="Aramayı ve Filtreleri Temizle"
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                view === id
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400 dark:border-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
             >
-              <span className="text-xs font-medium hidden sm:block">Temizle</span>
-              <X size={20} />
+              <Icon size={16} />
+              {t(`nav.${id}`)}
             </button>
+          ))}
+        </nav>
+      </header>
+
+      {/* Search Section (shared by the list and statistics views) */}
+      {(view === 'liste' || view === 'istatistik') && (
+        <div className="mb-6 w-full max-w-4xl mx-auto">
+          <div className="relative flex items-center w-full shadow-sm rounded-lg">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="text-gray-400" size={20} />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-12 py-3 border border-gray-300 dark:border-gray-600 rounded-lg leading-5 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm transition-colors"
+              placeholder={t('search.placeholder')}
+              value={searchTerm}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              onFocus={() => setSuggestionsOpen(true)}
+              onBlur={() => setSuggestionsOpen(false)}
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={showSuggestions}
+              aria-controls="search-suggestions"
+              aria-activedescendant={showSuggestions && activeSuggestion !== -1 ? suggestionOptionId('search-suggestions', activeSuggestion) : undefined}
+              aria-invalid={querySyntaxError !== null}
+              aria-describedby="search-syntax"
+            />
+            {(searchTerm || Object.values(filters).some(v => v !== '')) && (
+              <button
+                onClick={handleReset}
+                className="absolute inset-y-0 right-0 pr-3 flex items-center gap-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+                title={t('search.clearTitle')}
+              >
+                <span className="text-xs font-medium hidden sm:block">{t('search.clear')}</span>
+                <X size={20} />
+              </button>
+            )}
+            {showSuggestions && (
+              <SearchSuggestions
+                id="search-suggestions"
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                onSelect={handleSelectSuggestion}
+                onActivate={setActiveSuggestion}
+              />
+            )}
+          </div>
+          {querySyntaxError ? (
+            <p id="search-syntax" role="alert" className="mt-2 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+              <AlertCircle size={14} className="shrink-0" />
+              {t('search.syntaxError', {
+                position: querySyntaxError.position + 1,
+                message: t(`query.error.${querySyntaxError.code}`, querySyntaxError.params)
+              })}
+            </p>
+          ) : (
+            <p id="search-syntax" className="mt-2 text-xs text-gray-400 dark:text-gray-500">
+              {tx('search.syntaxHint', {
+                example: <code className="font-mono">{t('search.syntaxExample')}</code>
+              })}
+            </p>
           )}
         </div>
-      </div>
+      )}
 
       {/* Table Section */}
-      <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col">
-        <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
-          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-            <thead className="bg-gray-50 dark:bg-gray-900/50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
-                  <div className="flex flex-col gap-2">
-                    <span>İl</span>
-                    <select
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
-                      value={filters.il}
-                      onChange={(e) => handleFilterChange('il', e.target.value)}
-                    >
-                      <option value="">Tümü</option>
-                      {ilOptions.map(opt => (
-                        <option key={opt} value={opt}>{opt}</option>
-                      ))}
-                    </select>
-                  </div>
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
-                  <div className="flex flex-col gap-2">
-                    <span>İlçe</span>
-                    <select
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                      value={filters.ilce}
-                      onChange={(e) => handleFilterChange('ilce', e.target.value)}
-                    >
-                      <option value="">Tümü</option>
-                      {ilceOptions.map(opt => (
-                        <option key={opt} value={opt}>{opt}</option>
-                      ))}
-                    </select>
-                  </div>
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
-                  <div className="flex flex-col gap-2">
-                    <span>Belediye</span>
-                    <select
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                      value={filters.belediye}
-                      onChange={(e) => handleFilterChange('belediye', e.target.value)}
-                    >
-                      <option value="">Tümü</option>
-                      {belediyeOptions.map(opt => (
-                        <option key={opt} value={opt}>{opt}</option>
-                      ))}
-                    </select>
-                  </div>
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[200px]">
-                  <div className="flex flex-col gap-2">
-                    <span>Mahalle</span>
-                    <input
-                      type="text"
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                      placeholder="Mahalle ara..."
-                      value={filters.mahalle}
-                      onChange={(e) => handleFilterChange('mahalle', e.target.value)}
-                    />
-                  </div>
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[140px]">
-                  <div className="flex flex-col gap-2">
-                    <span>Durum</span>
-                    <select
-                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                      value={filters.durum}
-                      onChange={(e) => handleFilterChange('durum', e.target.value)}
-                    >
-                      <option value="">Tümü</option>
-                      {durumOptions.map(opt => (
-                        <option key={opt} value={opt}>{opt}</option>
-                      ))}
-                    </select>
-                  </div>
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-              {currentData.length > 0 ? (
-                currentData.map((item, index) => (
-                  <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{item.il}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.ilce}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.belediye || "-"}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.mahalle}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        item.durum === 'Kırsal Alan' 
-                          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
-                          : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
-                      }`}>
-                        {item.durum}
+      {view === 'liste' ? (
+        <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col">
+          <div className="mb-3 flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+              {t('list.found', { count: filteredData.length })}
+              {searchPending && <Loader2 className="animate-spin text-blue-600" size={14} aria-label={t('list.searching')} />}
+            </span>
+            <div className="flex items-center gap-3">
+              <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label={t('list.modeGroup')}>
+                {([
+                  { id: 'sayfali', icon: Table2 },
+                  { id: 'kaydirmali', icon: Rows3 }
+                ] as const).map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => handleListModeChange(mode.id)}
+                    aria-pressed={listMode === mode.id}
+                    title={t(`list.modeTitle.${mode.id}`)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium transition-colors ${
+                      listMode === mode.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <mode.icon size={16} />
+                    <span className="hidden sm:inline">{t(`list.mode.${mode.id}`)}</span>
+                  </button>
+                ))}
+              </div>
+              <ExportMenu
+                data={filteredData}
+                context={{ searchTerm, filters, datasetDate, dataset }}
+                onPrint={handlePrintReport}
+                disabled={searchPending}
+              />
+            </div>
+          </div>
+          <div
+            ref={tableContainerRef}
+            className={`${scrollMode ? 'overflow-auto max-h-[75vh]' : 'overflow-x-auto'} rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800`}
+          >
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              {/* In the scrolling list the header with its filters stays visible; it needs an opaque background */}
+              <thead className={scrollMode ? 'sticky top-0 z-10 shadow-sm bg-gray-50 dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-900/50'}>
+                <tr>
+                  <th scope="col" className="w-28 px-2 py-3">
+                    <span className="sr-only">{t('list.actionsColumn')}</span>
+                  </th>
+                  <th scope="col" aria-sort={ariaSort(sort, 'il')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
+                    <div className="flex flex-col gap-2">
+                      <SortableHeader field="il" label={t('field.il')} sort={sort} onSort={handleSortClick} />
+                      <select
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:placeholder-gray-400"
+                        value={filters.il}
+                        onChange={(e) => handleFilterChange('il', e.target.value)}
+                      >
+                        <option value="">{t('list.filterAll')}</option>
+                        {ilOptions.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.value} ({formatNumber(opt.count)})</option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                  <th scope="col" aria-sort={ariaSort(sort, 'ilce')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
+                    <div className="flex flex-col gap-2">
+                      <SortableHeader field="ilce" label={t('field.ilce')} sort={sort} onSort={handleSortClick} />
+                      <select
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={filters.ilce}
+                        onChange={(e) => handleFilterChange('ilce', e.target.value)}
+                      >
+                        <option value="">{t('list.filterAll')}</option>
+                        {facets.ilce.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.value} ({formatNumber(opt.count)})</option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                  <th scope="col" aria-sort={ariaSort(sort, 'belediye')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[160px]">
+                    <div className="flex flex-col gap-2">
+                      <SortableHeader field="belediye" label={t('field.belediye')} sort={sort} onSort={handleSortClick} />
+                      <select
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={filters.belediye}
+                        onChange={(e) => handleFilterChange('belediye', e.target.value)}
+                      >
+                        <option value="">{t('list.filterAll')}</option>
+                        {filters.belediye === EXACT_PREFIX && <option value={EXACT_PREFIX}>{t('list.noBelediye')}</option>}
+                        {facets.belediye.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.value} ({formatNumber(opt.count)})</option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                  <th scope="col" aria-sort={ariaSort(sort, 'mahalle')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[200px]">
+                    <div className="flex flex-col gap-2">
+                      <SortableHeader field="mahalle" label={t('field.mahalle')} sort={sort} onSort={handleSortClick} />
+                      <input
+                        type="text"
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        placeholder={t('list.mahallePlaceholder')}
+                        value={filters.mahalle}
+                        onChange={(e) => handleFilterChange('mahalle', e.target.value)}
+                      />
+                    </div>
+                  </th>
+                  <th scope="col" aria-sort={ariaSort(sort, 'durum')} className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider align-top min-w-[140px]">
+                    <div className="flex flex-col gap-2">
+                      <SortableHeader field="durum" label={t('field.durum')} sort={sort} onSort={handleSortClick} />
+                      <select
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs py-1.5 px-2 bg-white dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={filters.durum}
+                        onChange={(e) => handleFilterChange('durum', e.target.value)}
+                      >
+                        <option value="">{t('list.filterAll')}</option>
+                        {facets.durum.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.value} ({formatNumber(opt.count)})</option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {scrollMode && virtualRows.paddingTop > 0 && (
+                  <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }}>
+                    <td colSpan={6} className="p-0" />
+                  </tr>
+                )}
+                {currentData.length > 0 ? (
+                  currentData.map((item, index) => (
+                    <React.Fragment key={rowOffset + index}>
+                      <tr data-index={rowOffset + index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                        <td className="px-2 py-4 text-center whitespace-nowrap">
+                          <button
+                            onClick={() => toggleRow(item)}
+                            aria-expanded={expandedRows.has(item)}
+                            aria-label={t('row.details', { name: item.mahalle })}
+                            className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            <ChevronRight size={16} className={`transition-transform ${expandedRows.has(item) ? 'rotate-90' : ''}`} />
+                          </button>
+                          <button
+                            onClick={() => toggleWatch(item)}
+                            aria-pressed={watchedKeys.has(watchKey(item))}
+                            aria-label={t('row.watch', { name: item.mahalle })}
+                            title={t(watchedKeys.has(watchKey(item)) ? 'row.watchRemove' : 'row.watchAdd')}
+                            className="p-1 rounded text-gray-400 hover:text-yellow-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            <Star size={16} className={watchedKeys.has(watchKey(item)) ? 'fill-yellow-400 text-yellow-500' : ''} />
+                          </button>
+                          <button
+                            onClick={() => setPrintJob({ kind: 'belge', item })}
+                            aria-label={t('row.print', { name: item.mahalle })}
+                            title={t('row.printTitle')}
+                            className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            <Printer size={16} />
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{item.il}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.ilce}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.belediye || "-"}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{item.mahalle}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            item.durum === 'Kırsal Alan' 
+                              ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                              : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                          }`}>
+                            {item.durum}
+                          </span>
+                        </td>
+                      </tr>
+                      {expandedRows.has(item) && (
+                        <tr data-index={rowOffset + index} className="bg-gray-50 dark:bg-gray-900/30">
+                          <td colSpan={6} className="px-6 py-4">
+                            <SettlementDetails item={item} datasetDate={datasetDate} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))
+                ) : searchPending || shards.pending ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400">
+                      <span className="inline-flex items-center gap-2">
+                        <Loader2 className="animate-spin text-blue-600" size={20} />
+                        {t(shards.pending ? 'list.downloading' : 'list.searching')}
                       </span>
                     </td>
                   </tr>
-                ))
-              ) : (
-                <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400 flex flex-col items-center justify-center gap-2">
-                    <FilterX size={32} className="text-gray-400 mb-2" />
-                    <span>Kriterlere uygun kayıt bulunamadı.</span>
-                    <button 
-                        onClick={handleReset}
-                        className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
-                    >
-                        Filtreleri Temizle
-                    </button>
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
+                ) : manifest && neededShards.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400">
+                      {t('list.selectIl')}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400 flex flex-col items-center justify-center gap-2">
+                      <FilterX size={32} className="text-gray-400 mb-2" />
+                      <span>{t('list.empty')}</span>
+                      {corrections.length > 0 && (
+                        <span className="text-sm flex flex-wrap items-center justify-center gap-x-2">
+                          {t('search.didYouMean')}
+                          {corrections.map(correction => (
+                            <button
+                              key={correction}
+                              onClick={() => handleApplyCorrection(correction)}
+                              className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {correction}
+                            </button>
+                          ))}
+                        </span>
+                      )}
+                      <button 
+                          onClick={handleReset}
+                          className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+                      >
+                          {t('list.clearFilters')}
+                      </button>
+                    </td>
+                  </tr>
+                )}
+                {scrollMode && virtualRows.paddingBottom > 0 && (
+                  <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }}>
+                    <td colSpan={6} className="p-0" />
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
 
-        <div className="mt-auto pb-8">
-            <Pagination 
-                currentPage={currentPage} 
-                totalPages={totalPages} 
-                onPageChange={setCurrentPage} 
-            />
-            <div className="text-center mt-2 text-xs text-gray-400 dark:text-gray-500">
-                Sayfa {currentPage} / {totalPages}
-            </div>
+          <div className="mt-auto pb-8">
+            {scrollMode ? (
+              <div className="text-center mt-4 text-xs text-gray-400 dark:text-gray-500">
+                  {t('list.scrollHint')}
+              </div>
+            ) : (
+              <>
+                <Pagination 
+                    currentPage={currentPage} 
+                    totalPages={totalPages} 
+                    onPageChange={setCurrentPage} 
+                    pageSize={pageSize}
+                    pageSizeOptions={PAGE_SIZE_OPTIONS}
+                    onPageSizeChange={handlePageSizeChange}
+                />
+                <div className="text-center mt-2 text-xs text-gray-400 dark:text-gray-500">
+                    {t('list.pageOf', { page: currentPage, total: totalPages })}
+                </div>
+              </>
+            )}
+          </div>
         </div>
-      </div>
+      ) : WHOLE_LIST_VIEWS.includes(view) && !allShardsLoaded ? (
+        <div className="flex-grow w-full max-w-7xl mx-auto py-16 flex flex-col items-center gap-3 text-sm text-gray-500 dark:text-gray-400" role="status">
+          {shards.pending
+            ? <Loader2 className="animate-spin text-blue-600" size={24} />
+            : <Database className="text-gray-400" size={24} />}
+          {manifest && t('list.wholeListPending', { total: manifest.shards.length, loaded: shards.loadedCount })}
+        </div>
+      ) : view === 'istatistik' ? (
+        <StatsDashboard data={filteredData} filters={filters} pending={searchPending} onApplyFilters={handleApplyFilters} />
+      ) : view === 'harita' ? (
+        <ProvinceMap data={listData} selectedIl={filters.il} onSelectIl={handleSelectIl} onSelectIlce={handleSelectIlce} />
+      ) : view === 'gezin' ? (
+        <SettlementBrowser data={listData} onSelect={handleSelectTreeNode} />
+      ) : view === 'takip' ? (
+        <WatchlistPanel
+          watchlist={watchlist}
+          checks={watchChecks}
+          currentSearch={{ searchTerm, filters, sort }}
+          dataset={datasetId}
+          onChange={setWatchlist}
+          onShowSettlement={handleShowWatched}
+          onApplySearch={handleApplySavedSearch}
+        />
+      ) : view === 'toplu' ? (
+        <BatchCheck data={listData} datasetDate={datasetDate} dataset={dataset} />
+      ) : view === 'karsilastir' ? (
+        <DatasetDiff currentData={listData} currentLabel={t('list.loadedLabel', { date: datasetDate })} />
+      ) : view === 'ice-aktar' ? (
+        <ImportPanel onOpen={handleOpenImported} />
+      ) : (
+        <>
+          <DataQualityPanel report={qualityReport} policy={validationPolicy} onPolicyChange={handlePolicyChange} />
+          {!manifest && !usingSampleData && <ShardPackageExport data={listData} datasetVersion={datasetDate} />}
+        </>
+      )}
+
+      {printJob && <PrintView job={printJob} dataset={dataset} datasetDate={datasetDate} datasetLabel={datasetVersion ? datasetVersionLabel(locale, datasetVersion) : undefined} />}
     </div>
   );
 }
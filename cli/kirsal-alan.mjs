@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// Node entry point for the kirsal-alan CLI. The query and import logic lives in cli/kirsalAlan.ts;
+// build it first with `npm run build:node`.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { runCli } from '../dist-node/kirsalAlan.js';
+
+const result = await runCli(process.argv.slice(2), {
+  readFile: path => readFileSync(path, 'utf8'),
+  readBinary: path => new Uint8Array(readFileSync(path)),
+  writeFile: (path, text) => writeFileSync(path, text, 'utf8')
+});
+
+process.stdout.write(result.stdout);
+process.stderr.write(result.stderr);
+process.exitCode = result.exitCode;
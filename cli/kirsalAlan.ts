@@ -0,0 +1,396 @@
+import { BatchStatus, SettlementField, YerlesimYeri } from '../types';
+import { BATCH_STATUS_LABELS } from '../utils/batchMatch';
+import { FIELD_LABELS, FILTER_LABELS } from '../utils/filters';
+import { CSV_BOM, toCsv } from '../utils/csv';
+import { DEFAULT_DATA_PATHS, LoadedDataset, ReadFile, loadFirstDatasetFile } from '../utils/datasetFile';
+import { LookupQuery, findSettlements, lookupStatus, suggestSettlements } from '../utils/settlementLookup';
+import { DataValidationError } from '../utils/validation';
+import { DEFAULT_LOCALE, translate } from '../utils/i18n';
+import { QuerySyntaxError, parseSearchQuery, querySyntaxMessage } from '../utils/searchQuery';
+import {
+  HEADER_SEARCH_ROWS, IMPORT_FIELDS, ImportError, ImportField, ImportMapping, ImportResult,
+  columnLetter, importSpreadsheet, importSummaryCsv, importSummaryRows, serializeDataset
+} from '../utils/importer';
+
+/**
+ * Command-line lookups against data.json (or a sharded veri/manifest.json), plus the
+ * `ice-aktar` command that builds data.json from the official spreadsheet.
+ * This module has no Node dependencies; cli/kirsal-alan.mjs supplies file access and the process exit.
+ */
+
+export type OutputFormat = 'tablo' | 'json' | 'csv';
+
+// Exit codes scripts can branch on; 64-66 follow the BSD sysexits convention
+export const EXIT_CODES: Record<BatchStatus, number> & { kullanim: number; veri: number; dosya: number } = {
+  'kirsal': 0,
+  'kirsal-degil': 1,
+  'bulunamadi': 2,
+  'belirsiz': 3,
+  kullanim: 64,
+  veri: 65,
+  dosya: 66
+};
+
+const DEFAULT_LIMIT = 100;
+
+export const HELP_TEXT = `Kullanım: kirsal-alan [seçenekler] [arama metni]
+       kirsal-alan ice-aktar <dosya> [seçenekler]
+
+Yerleşim yerlerinin kırsal alan durumunu sorgular. ice-aktar komutu resmi
+listeden data.json üretir (ayrıntılar: kirsal-alan ice-aktar --yardim).
+
+Seçenekler:
+  --il <ad>            İl adı (büyük/küçük harf ve Türkçe karakter duyarsız)
+  --ilce <ad>          İlçe adı
+  --belediye <ad>      Belediye adı
+  --mahalle <ad>       Mahalle/köy adı ("Mah.", "Köyü" gibi ekler yok sayılır)
+  --bicim <biçim>      Çıktı biçimi: tablo (varsayılan), json, csv
+  --limit <sayı>       Yazdırılacak en fazla kayıt (varsayılan ${DEFAULT_LIMIT})
+  --veri <dosya>       data.json ya da veri/manifest.json yolu
+                       (varsayılan: ${DEFAULT_DATA_PATHS.join(', ')})
+  -h, --yardim         Bu yardımı göster
+  --                   Sonraki her şeyi arama metni olarak al
+
+Arama metninde web uygulamasındaki gibi alan (il:adana), tırnaklı ifade,
+dışlama (-mahalle:merkez) ve OR kullanılabilir.
+
+Çıkış kodları:
+  ${EXIT_CODES.kirsal}   Kırsal Alan
+  ${EXIT_CODES['kirsal-degil']}   Kırsal Alan Değil
+  ${EXIT_CODES.bulunamadi}   Kayıt bulunamadı
+  ${EXIT_CODES.belirsiz}   Belirsiz (eşleşen kayıtların durumları farklı)
+  ${EXIT_CODES.kullanim}  Hatalı kullanım
+  ${EXIT_CODES.veri}  Veri dosyası okunamadı ya da hatalı
+  ${EXIT_CODES.dosya}  Veri dosyası bulunamadı
+
+Örnekler:
+  kirsal-alan --il adana --ilce seyhan --mahalle "2000 evler"
+  kirsal-alan --bicim json yenice
+  kirsal-alan il:adana -mahalle:merkez
+`;
+
+export interface CliOptions extends LookupQuery {
+  format: OutputFormat;
+  limit: number;
+  dataPath: string;
+  help: boolean;
+}
+
+export interface CliIo {
+  readFile: ReadFile;
+  readBinary: (path: string) => Uint8Array;
+  writeFile: (path: string, text: string) => void;
+}
+
+export interface CliResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const FIELD_FLAGS: Record<string, 'il' | 'ilce' | 'belediye' | 'mahalle'> = {
+  '--il': 'il',
+  '--ilce': 'ilce',
+  '--belediye': 'belediye',
+  '--mahalle': 'mahalle'
+};
+
+export const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    il: '', ilce: '', belediye: '', mahalle: '', text: '',
+    format: 'tablo', limit: DEFAULT_LIMIT, dataPath: '', help: false
+  };
+  const words: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // Everything after "--" is search text, even when it looks like an option
+    if (arg === '--') {
+      words.push(...args.slice(i + 1));
+      break;
+    }
+    // "--il=adana" and "--il adana" are both accepted
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = () => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = args[++i];
+      if (next === undefined) throw new CliUsageError(`${flag} için değer girilmedi.`);
+      return next;
+    };
+
+    if (flag === '-h' || flag === '--yardim' || flag === '--help') {
+      options.help = true;
+    } else if (FIELD_FLAGS[flag]) {
+      options[FIELD_FLAGS[flag]] = value();
+    } else if (flag === '--bicim') {
+      const format = value();
+      if (format !== 'tablo' && format !== 'json' && format !== 'csv') {
+        throw new CliUsageError(`Bilinmeyen biçim: ${format}. tablo, json ya da csv olmalıdır.`);
+      }
+      options.format = format;
+    } else if (flag === '--limit') {
+      const limit = Number(value());
+      if (!Number.isInteger(limit) || limit < 1) throw new CliUsageError('--limit pozitif bir tam sayı olmalıdır.');
+      options.limit = limit;
+    } else if (flag === '--veri') {
+      options.dataPath = value();
+    } else if (flag.startsWith('--')) {
+      throw new CliUsageError(`Bilinmeyen seçenek: ${flag}`);
+    } else {
+      // Single-dash words are negated search terms, e.g. -mahalle:merkez
+      words.push(arg);
+    }
+  }
+
+  options.text = words.join(' ').trim();
+  if (!options.help && !options.text && !options.il && !options.ilce && !options.belediye && !options.mahalle) {
+    throw new CliUsageError('Bir arama metni ya da --il/--ilce/--belediye/--mahalle seçeneklerinden en az biri gereklidir.');
+  }
+  return options;
+};
+
+const COLUMNS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum'];
+
+const formatTable = (records: YerlesimYeri[]): string => {
+  const header = COLUMNS.map(key => FILTER_LABELS[key]);
+  const rows = records.map(item => COLUMNS.map(key => item[key] || '-'));
+  const widths = header.map((label, column) => Math.max(label.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(line)].join('\n') + '\n';
+};
+
+export const formatOutput = (
+  records: YerlesimYeri[],
+  status: BatchStatus,
+  options: CliOptions,
+  suggestions: YerlesimYeri[] = []
+): string => {
+  const shown = records.slice(0, options.limit);
+
+  if (options.format === 'json') {
+    return JSON.stringify({
+      sonuc: status,
+      sonucAciklamasi: BATCH_STATUS_LABELS[status],
+      toplamKayit: records.length,
+      kayitlar: shown,
+      ...(suggestions.length > 0 ? { oneriler: suggestions } : {})
+    }, null, 2) + '\n';
+  }
+
+  if (options.format === 'csv') {
+    // No BOM on stdout; it would end up in the first field of piped output
+    return toCsv([COLUMNS.map(key => FILTER_LABELS[key]), ...shown.map(item => COLUMNS.map(key => item[key]))]).slice(CSV_BOM.length);
+  }
+
+  const lines: string[] = [];
+  if (shown.length > 0) lines.push(formatTable(shown));
+  if (records.length > shown.length) {
+    lines.push(`... ${records.length - shown.length} kayıt daha (--limit ile artırabilirsiniz)\n`);
+  }
+  lines.push(`Sonuç: ${BATCH_STATUS_LABELS[status]} (${records.length} kayıt)\n`);
+  if (suggestions.length > 0) {
+    lines.push(`\nBunu mu demek istediniz?\n${formatTable(suggestions)}`);
+  }
+  return lines.join('');
+};
+
+const runLookup = (args: string[], io: CliIo): CliResult => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    if (!(err instanceof CliUsageError)) throw err;
+    return { stdout: '', stderr: `${err.message}\n\n${HELP_TEXT}`, exitCode: EXIT_CODES.kullanim };
+  }
+  if (options.help) {
+    return { stdout: HELP_TEXT, stderr: '', exitCode: 0 };
+  }
+  // The web app searches a malformed query as plain text; a script is told instead
+  try {
+    parseSearchQuery(options.text);
+  } catch (err) {
+    if (!(err instanceof QuerySyntaxError)) throw err;
+    return { stdout: '', stderr: `Arama metni hatalı: ${querySyntaxMessage(DEFAULT_LOCALE, err)}\n`, exitCode: EXIT_CODES.kullanim };
+  }
+
+  const paths = options.dataPath ? [options.dataPath] : DEFAULT_DATA_PATHS;
+  let loaded: LoadedDataset | null;
+  try {
+    loaded = loadFirstDatasetFile(paths, io.readFile);
+  } catch (err) {
+    if (!(err instanceof DataValidationError)) throw err;
+    return { stdout: '', stderr: `${err.message}\n`, exitCode: EXIT_CODES.veri };
+  }
+  if (!loaded) {
+    return { stdout: '', stderr: `Veri dosyası bulunamadı: ${paths.join(', ')}\n`, exitCode: EXIT_CODES.dosya };
+  }
+  const stderr = loaded.quarantined > 0 ? `Uyarı: ${loaded.quarantined} hatalı kayıt sorguya dahil edilmedi.\n` : '';
+
+  const records = findSettlements(loaded.data, options);
+  const status = lookupStatus(records);
+  const suggestions = status === 'bulunamadi' ? suggestSettlements(loaded.data, options) : [];
+
+  return {
+    stdout: formatOutput(records, status, options, suggestions),
+    stderr,
+    exitCode: EXIT_CODES[status]
+  };
+};
+
+export const IMPORT_HELP_TEXT = `Kullanım: kirsal-alan ice-aktar <dosya> [seçenekler]
+
+TÜİK/IPARD listesini (.xlsx ya da .csv) okur, adları kırpar ve büyük harfe çevirir,
+kayıtları doğrular ve data.json biçiminde yazar. Atlanan ve şüpheli satırların
+özeti standart hataya yazdırılır.
+
+Seçenekler:
+  --cikti <dosya>        data.json'un yazılacağı yol (varsayılan: standart çıktı)
+  --ozet <dosya>         Atlanan ve hatalı satırları CSV olarak kaydet
+  --sutun <alan>=<sütun> Sütun eşleştirmesi; alan ${IMPORT_FIELDS.join(', ')} olabilir,
+                         sütun başlık metni ya da harfidir (ör. --sutun mahalle=D).
+                         Birden çok kez verilebilir; verilmeyen alanlar otomatik bulunur,
+                         "-" alanı boş bırakır (ör. --sutun dayanak=-).
+  --baslik-satiri <no>   Başlık satırının numarası (varsayılan: ilk ${HEADER_SEARCH_ROWS} satırda aranır)
+  --siki                 Hatalı kayıt varsa dosya yazmadan ${EXIT_CODES.veri} koduyla çık
+  -h, --yardim           Bu yardımı göster
+
+Örnek:
+  kirsal-alan ice-aktar kirsal-alan-listesi.xlsx --cikti public/data.json --ozet ozet.csv
+`;
+
+export interface ImportOptions {
+  input: string;
+  output: string;
+  summaryPath: string;
+  mapping: ImportMapping;
+  headerRow?: number;
+  strict: boolean;
+  help: boolean;
+}
+
+// Issues printed to stderr; the full list goes to --ozet
+const MAX_SUMMARY_LINES = 20;
+
+export const parseImportArgs = (args: string[]): ImportOptions => {
+  const options: ImportOptions = { input: '', output: '', summaryPath: '', mapping: {}, strict: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = () => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = args[++i];
+      if (next === undefined) throw new CliUsageError(`${flag} için değer girilmedi.`);
+      return next;
+    };
+
+    if (flag === '-h' || flag === '--yardim' || flag === '--help') {
+      options.help = true;
+    } else if (flag === '--cikti') {
+      options.output = value();
+    } else if (flag === '--ozet') {
+      options.summaryPath = value();
+    } else if (flag === '--sutun') {
+      const pair = value();
+      const field = pair.slice(0, pair.indexOf('=')).trim() as ImportField;
+      if (!pair.includes('=') || !IMPORT_FIELDS.includes(field)) {
+        throw new CliUsageError(`--sutun alan=sütun biçiminde olmalıdır; alan ${IMPORT_FIELDS.join(', ')} olabilir.`);
+      }
+      options.mapping[field] = pair.slice(pair.indexOf('=') + 1);
+    } else if (flag === '--baslik-satiri') {
+      const row = Number(value());
+      if (!Number.isInteger(row) || row < 1) throw new CliUsageError('--baslik-satiri pozitif bir tam sayı olmalıdır.');
+      options.headerRow = row;
+    } else if (flag === '--siki') {
+      options.strict = true;
+    } else if (flag.startsWith('-') && flag !== '-') {
+      throw new CliUsageError(`Bilinmeyen seçenek: ${flag}`);
+    } else if (options.input) {
+      throw new CliUsageError('Yalnızca bir dosya içe aktarılabilir.');
+    } else {
+      options.input = arg;
+    }
+  }
+
+  if (!options.help && !options.input) throw new CliUsageError('İçe aktarılacak dosya belirtilmedi.');
+  return options;
+};
+
+export const formatImportSummary = (result: ImportResult): string => {
+  const columns = IMPORT_FIELDS
+    .map(field => `${FIELD_LABELS[field]}: ${result.columns[field] >= 0 ? columnLetter(result.columns[field]) : '-'}`)
+    .join(', ');
+  const rows = importSummaryRows(result, DEFAULT_LOCALE);
+  const lines = [
+    `Başlık satırı: ${result.headerRow} (${columns})`,
+    `Kaynak satır: ${result.sourceRows}, aktarılan: ${result.data.length}, atlanan: ${result.skipped.length}, ` +
+      `düzeltilen: ${result.corrected}, karantinada: ${result.report.quarantinedRows.length}`,
+    ...rows.slice(0, MAX_SUMMARY_LINES).map(entry =>
+      `  Satır ${entry.row} [${translate(DEFAULT_LOCALE, `severity.${entry.severity}`)}] ${entry.kind}${entry.field ? ` (${entry.field})` : ''}: ${entry.message}`
+    )
+  ];
+  if (rows.length > MAX_SUMMARY_LINES) {
+    lines.push(`  ... ${rows.length - MAX_SUMMARY_LINES} satır daha (tamamı için --ozet kullanın)`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+const runImport = async (args: string[], io: CliIo): Promise<CliResult> => {
+  let options: ImportOptions;
+  try {
+    options = parseImportArgs(args);
+  } catch (err) {
+    if (!(err instanceof CliUsageError)) throw err;
+    return { stdout: '', stderr: `${err.message}\n\n${IMPORT_HELP_TEXT}`, exitCode: EXIT_CODES.kullanim };
+  }
+  if (options.help) {
+    return { stdout: IMPORT_HELP_TEXT, stderr: '', exitCode: 0 };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = io.readBinary(options.input);
+  } catch {
+    return { stdout: '', stderr: `Dosya okunamadı: ${options.input}\n`, exitCode: EXIT_CODES.dosya };
+  }
+
+  let result: ImportResult;
+  try {
+    result = await importSpreadsheet(bytes, options.mapping, options.headerRow);
+  } catch (err) {
+    // ImportError explains a header mismatch; anything else means the file itself is unreadable
+    const message = err instanceof ImportError ? err.message : `${options.input} okunamadı: ${err instanceof Error ? err.message : String(err)}`;
+    return { stdout: '', stderr: `${message}\n`, exitCode: EXIT_CODES.veri };
+  }
+
+  let stderr = formatImportSummary(result);
+  if (options.summaryPath) {
+    io.writeFile(options.summaryPath, importSummaryCsv(result, DEFAULT_LOCALE));
+  }
+
+  const rejected = result.data.length === 0 || (options.strict && result.report.quarantinedRows.length > 0);
+  if (rejected) {
+    stderr += result.data.length === 0 ? 'Geçerli kayıt bulunamadı; dosya yazılmadı.\n' : 'Hatalı kayıtlar olduğu için dosya yazılmadı (--siki).\n';
+    return { stdout: '', stderr, exitCode: EXIT_CODES.veri };
+  }
+
+  const json = serializeDataset(result.data);
+  if (!options.output) return { stdout: json, stderr, exitCode: 0 };
+
+  io.writeFile(options.output, json);
+  return { stdout: '', stderr: `${stderr}${result.data.length} kayıt ${options.output} dosyasına yazıldı.\n`, exitCode: 0 };
+};
+
+export const runCli = async (args: string[], io: CliIo): Promise<CliResult> =>
+  args[0] === 'ice-aktar' ? runImport(args.slice(1), io) : runLookup(args, io);
@@ -0,0 +1,207 @@
+import React, { useState, useRef } from 'react';
+import { Upload, Play, Trash2, FileText, FileSpreadsheet, ListChecks } from 'lucide-react';
+import { BatchResult, BatchStatus, DatasetInfo, YerlesimYeri } from '../types';
+import { BATCH_STATUS_LABELS, matchBatch, parseBatchInput } from '../utils/batchMatch';
+import { exportBatchResults, formatRecord } from '../utils/exportUtils';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../utils/i18n';
+
+interface BatchCheckProps {
+  data: YerlesimYeri[];
+  datasetDate: string;
+  // List of the dataset registry; null for the built-in list
+  dataset: DatasetInfo | null;
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  'kirsal': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'kirsal-degil': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'bulunamadi': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  'belirsiz': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+};
+
+const COLUMN_KEYS: MessageKey[] = ['batch.col.line', 'batch.col.query', 'batch.col.result', 'batch.col.matches'];
+
+const PLACEHOLDER = `il;ilçe;mahalle
+ADANA;SEYHAN;Büyükçıldırım
+ADANA;KARAİSALI;Hacılı Mah.`;
+
+const BatchCheck: React.FC<BatchCheckProps> = ({ data, datasetDate, dataset }) => {
+  const { locale, t, tx, formatNumber } = useI18n();
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<BatchResult[] | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runCheck = (text: string) => {
+    setResults(matchBatch(parseBatchInput(text), data));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setInput(text);
+      setFileError(null);
+      runCheck(text);
+    } catch (err) {
+      console.warn('Dosya okunamadı.', err);
+      setFileError(t('batch.fileError'));
+    }
+  };
+
+  const handleClear = () => {
+    setInput('');
+    setResults(null);
+    setFileError(null);
+  };
+
+  const counts = (results || []).reduce((acc, result) => {
+    acc[result.status] = (acc[result.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<BatchStatus, number>>);
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6">
+      <div className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col gap-3">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <ListChecks size={20} className="text-blue-600" />
+          {t('batch.title')}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {tx('batch.intro', { columns: <strong>il;ilçe;mahalle</strong> })}
+        </p>
+        <textarea
+          className="block w-full h-40 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100 p-3 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder={PLACEHOLDER}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+        />
+        {fileError && <p className="text-sm text-red-600 dark:text-red-400">{fileError}</p>}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => runCheck(input)}
+            disabled={!input.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Play size={16} />
+            {t('batch.run')}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Upload size={16} />
+            {t('batch.upload')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {(input || results) && (
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+            >
+              <Trash2 size={16} />
+              {t('search.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {results && (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(BATCH_STATUS_LABELS) as BatchStatus[]).map(status => (
+                <span key={status} className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                  {t(`batch.status.${status}`)}: {formatNumber(counts[status] || 0)}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportBatchResults(results, datasetDate, dataset, 'csv', locale)}
+                disabled={results.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FileText size={16} className="text-gray-400" />
+                {t('export.downloadCsv')}
+              </button>
+              <button
+                onClick={() => exportBatchResults(results, datasetDate, dataset, 'xlsx', locale)}
+                disabled={results.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FileSpreadsheet size={16} className="text-green-600" />
+                {t('export.downloadXlsx')}
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900/50">
+                <tr>
+                  {COLUMN_KEYS.map(key => (
+                    <th key={key} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      {t(key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {results.length > 0 ? (
+                  results.map(result => (
+                    <tr key={result.query.line} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{result.query.line}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-gray-100">
+                        {[result.query.il, result.query.ilce, result.query.mahalle].filter(Boolean).join(' / ') || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[result.status]}`}>
+                          {t(`batch.status.${result.status}`)}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">
+                        {result.matches.length > 0 ? (
+                          <ul className="space-y-1">
+                            {result.matches.map((item, i) => <li key={i}>{formatRecord(item)}</li>)}
+                          </ul>
+                        ) : result.candidates.length > 0 ? (
+                          <div>
+                            <span className="text-xs font-medium text-gray-400 dark:text-gray-500">{t('batch.didYouMean')}</span>
+                            <ul className="space-y-1 mt-1">
+                              {result.candidates.map((item, i) => <li key={i}>{formatRecord(item)}</li>)}
+                            </ul>
+                          </div>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400">
+                      {t('batch.noLines')}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchCheck;
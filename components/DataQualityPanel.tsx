@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { ShieldCheck, ShieldAlert, FileText } from 'lucide-react';
+import { DataIssueType, DataQualityReport, ValidationPolicy } from '../types';
+import { issueMessage } from '../utils/validation';
+import { CSV_MIME, toCsv } from '../utils/csv';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../utils/i18n';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport | null;
+  policy: ValidationPolicy;
+  onPolicyChange: (policy: ValidationPolicy) => void;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+const COLUMN_KEYS: MessageKey[] = [
+  'quality.col.row',
+  'quality.col.severity',
+  'quality.col.type',
+  'quality.col.field',
+  'quality.col.value',
+  'quality.col.message'
+];
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, policy, onPolicyChange }) => {
+  const { locale, t, formatNumber } = useI18n();
+  const [selectedType, setSelectedType] = useState<DataIssueType | ''>('');
+
+  const typeCounts = useMemo(() => {
+    const counts: Partial<Record<DataIssueType, number>> = {};
+    (report?.issues || []).forEach(issue => {
+      counts[issue.type] = (counts[issue.type] || 0) + 1;
+    });
+    return counts;
+  }, [report]);
+
+  const visibleIssues = useMemo(
+    () => (report?.issues || []).filter(issue => !selectedType || issue.type === selectedType),
+    [report, selectedType]
+  );
+
+  if (!report) {
+    return (
+      <div className="flex-grow w-full max-w-7xl mx-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 text-sm text-gray-500 dark:text-gray-400">
+        {t('quality.noReport')}
+      </div>
+    );
+  }
+
+  const warningCount = report.issues.filter(issue => issue.severity === 'uyari').length;
+
+  const handleDownload = () => {
+    const rows = [
+      COLUMN_KEYS.map(key => t(key)),
+      ...report.issues.map(issue => [
+        issue.row,
+        t(`severity.${issue.severity}`),
+        t(`issue.${issue.type}`),
+        issue.field ? t(`field.${issue.field}`) : '',
+        issue.value || '',
+        issueMessage(locale, issue)
+      ])
+    ];
+    downloadFile(toCsv(rows), `veri-kalitesi-raporu-${fileDateStamp()}.csv`, CSV_MIME);
+  };
+
+  const stats = [
+    { label: t('quality.totalRows'), value: report.totalRows, className: 'text-gray-900 dark:text-white' },
+    { label: t('quality.listed'), value: report.validRows, className: 'text-green-600 dark:text-green-400' },
+    { label: t('quality.quarantined'), value: report.quarantinedRows.length, className: 'text-red-600 dark:text-red-400' },
+    { label: t('quality.warnings'), value: warningCount, className: 'text-yellow-600 dark:text-yellow-400' }
+  ];
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6">
+      <div className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col gap-4">
+        <div className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          {report.issues.length === 0
+            ? <ShieldCheck size={20} className="text-green-600" />
+            : <ShieldAlert size={20} className="text-yellow-600" />}
+          {t('quality.title')}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+              <div className={`text-xl font-bold ${stat.className}`}>{formatNumber(stat.value)}</div>
+            </div>
+          ))}
+        </div>
+
+        <fieldset className="flex flex-col gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <legend className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{t('quality.policy')}</legend>
+          <label className="flex items-center gap-2">
+            <input type="radio" name="validation-policy" checked={policy === 'karantina'} onChange={() => onPolicyChange('karantina')} />
+            {t('quality.policy.karantina')}
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" name="validation-policy" checked={policy === 'reddet'} onChange={() => onPolicyChange('reddet')} />
+            {t('quality.policy.reddet')}
+          </label>
+        </fieldset>
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setSelectedType('')}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  selectedType === '' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                {t('list.filterAll')} ({formatNumber(report.issues.length)})
+              </button>
+              {(Object.keys(typeCounts) as DataIssueType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setSelectedType(type)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    selectedType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {t(`issue.${type}`)} ({formatNumber(typeCounts[type] || 0)})
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleDownload}
+              className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              <FileText size={16} className="text-gray-400" />
+              {t('quality.download')}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900/50">
+                <tr>
+                  {COLUMN_KEYS.map(key => (
+                    <th key={key} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      {t(key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleIssues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                  <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{issue.row}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        issue.severity === 'hata'
+                          ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                          : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                      }`}>
+                        {t(`severity.${issue.severity}`)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-200">{t(`issue.${issue.type}`)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{issue.field ? t(`field.${issue.field}`) : '-'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-300 font-mono whitespace-pre">{issue.value ? `"${issue.value}"` : '-'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-300">{issueMessage(locale, issue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visibleIssues.length > MAX_VISIBLE_ISSUES && (
+            <p className="text-xs text-center text-gray-400 dark:text-gray-500">
+              {t('quality.truncated', { shown: MAX_VISIBLE_ISSUES, total: visibleIssues.length })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,301 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { GitCompare, Upload, Database, FileText, FileSpreadsheet, X } from 'lucide-react';
+import { DiffKind, YerlesimYeri } from '../types';
+import { DIFF_KINDS, diffDatasets, entryKinds } from '../utils/datasetDiff';
+import { DataValidationError, dataErrorMessage, validateDataset } from '../utils/validation';
+import { exportDiff } from '../utils/exportUtils';
+import { normalizeTurkish } from '../utils/textUtils';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../utils/i18n';
+import Pagination from './Pagination';
+
+interface DatasetDiffProps {
+  currentData: YerlesimYeri[];
+  currentLabel: string;
+}
+
+interface DiffSource {
+  name: string;
+  data: YerlesimYeri[];
+  quarantined: number;
+}
+
+type Side = 'before' | 'after';
+
+const ITEMS_PER_PAGE = 50;
+
+const KIND_STYLES: Record<DiffKind, string> = {
+  'kirsala-gecti': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'kirsaldan-cikti': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'eklendi': 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  'kaldirildi': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  'yeniden-adlandirildi': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+};
+
+const COLUMN_KEYS: MessageKey[] = ['diff.col.kind', 'field.il', 'field.ilce', 'field.belediye', 'field.mahalle', 'field.durum'];
+
+const DatasetDiff: React.FC<DatasetDiffProps> = ({ currentData, currentLabel }) => {
+  const { locale, t, formatNumber } = useI18n();
+  const [sources, setSources] = useState<Record<Side, DiffSource | null>>({ before: null, after: null });
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<DiffKind | ''>('');
+  const [ilFilter, setIlFilter] = useState('');
+  const [textFilter, setTextFilter] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const fileInputs = { before: useRef<HTMLInputElement>(null), after: useRef<HTMLInputElement>(null) };
+
+  const handleFile = async (side: Side, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { data, report } = validateDataset(JSON.parse(await file.text()));
+      if (data.length === 0) throw new Error(t('diff.noValidRows'));
+      setSources(prev => ({ ...prev, [side]: { name: file.name, data, quarantined: report.quarantinedRows.length } }));
+      setLoadError(null);
+    } catch (err) {
+      const message = err instanceof DataValidationError ? dataErrorMessage(locale, err) : err instanceof Error ? err.message : String(err);
+      setLoadError(t('diff.readError', { file: file.name, error: message }));
+    }
+  };
+
+  const selectCurrentData = (side: Side) => {
+    setSources(prev => ({ ...prev, [side]: { name: currentLabel, data: currentData, quarantined: 0 } }));
+  };
+
+  const entries = useMemo(
+    () => (sources.before && sources.after ? diffDatasets(sources.before.data, sources.after.data) : null),
+    [sources]
+  );
+
+  const kindCounts = useMemo(() => {
+    const counts: Partial<Record<DiffKind, number>> = {};
+    (entries || []).forEach(entry => {
+      entryKinds(entry).forEach(kind => {
+        counts[kind] = (counts[kind] || 0) + 1;
+      });
+    });
+    return counts;
+  }, [entries]);
+
+  const ilOptions = useMemo(
+    () => Array.from(new Set((entries || []).map(entry => (entry.after || entry.before)!.il)))
+      .sort((a, b) => a.localeCompare(b, 'tr')),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    const query = normalizeTurkish(textFilter.trim());
+    return (entries || []).filter(entry => {
+      const place = (entry.after || entry.before)!;
+      if (kindFilter && !entryKinds(entry).includes(kindFilter)) return false;
+      if (ilFilter && place.il !== ilFilter) return false;
+      if (!query) return true;
+      return [entry.before, entry.after].some(item =>
+        item && [item.ilce, item.belediye, item.mahalle].some(value => normalizeTurkish(value).includes(query))
+      );
+    });
+  }, [entries, kindFilter, ilFilter, textFilter]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [entries, kindFilter, ilFilter, textFilter]);
+
+  const totalPages = Math.ceil(visibleEntries.length / ITEMS_PER_PAGE);
+  const pageEntries = visibleEntries.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (!sources.before || !sources.after) return;
+    exportDiff(visibleEntries, { before: sources.before.name, after: sources.after.name }, format, locale);
+  };
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6">
+      <div className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <GitCompare size={20} className="text-blue-600" />
+          {t('diff.title')}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('diff.intro')}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(['before', 'after'] as Side[]).map(side => {
+            const source = sources[side];
+            return (
+              <div key={side} className="rounded-md border border-gray-200 dark:border-gray-700 p-3 flex flex-col gap-2">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t(`diff.side.${side}`)}</div>
+                {source ? (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="text-sm text-gray-900 dark:text-gray-100">
+                      <div className="font-medium break-all">{source.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('diff.sourceRows', { count: source.data.length })}
+                        {source.quarantined > 0 && t('diff.sourceQuarantined', { count: source.quarantined })}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setSources(prev => ({ ...prev, [side]: null }))}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      aria-label={t('diff.removeSource', { side: t(`diff.side.${side}`) })}
+                    >
+                      <X size={18} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => fileInputs[side].current?.click()}
+                      className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      <Upload size={16} />
+                      {t('diff.chooseFile')}
+                    </button>
+                    <button
+                      onClick={() => selectCurrentData(side)}
+                      className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      <Database size={16} />
+                      {t('diff.useLoaded')}
+                    </button>
+                  </div>
+                )}
+                <input
+                  ref={fileInputs[side]}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => handleFile(side, e)}
+                />
+              </div>
+            );
+          })}
+        </div>
+        {loadError && <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+      </div>
+
+      {entries && (
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setKindFilter('')}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                kindFilter === '' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'
+              }`}
+            >
+              {t('list.filterAll')} ({formatNumber(entries.length)})
+            </button>
+            {DIFF_KINDS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => setKindFilter(kind)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  kindFilter === kind ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                {t(`diff.kind.${kind}`)} ({formatNumber(kindCounts[kind] || 0)})
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-2">
+              <select
+                className="rounded-md border border-gray-300 dark:border-gray-600 text-sm py-2 px-2 bg-white dark:bg-gray-700 dark:text-white"
+                value={ilFilter}
+                onChange={(e) => setIlFilter(e.target.value)}
+              >
+                <option value="">{t('diff.allIls')}</option>
+                {ilOptions.map(il => <option key={il} value={il}>{il}</option>)}
+              </select>
+              <input
+                type="text"
+                className="rounded-md border border-gray-300 dark:border-gray-600 text-sm py-2 px-3 bg-white dark:bg-gray-700 dark:text-white"
+                placeholder={t('diff.textPlaceholder')}
+                value={textFilter}
+                onChange={(e) => setTextFilter(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={visibleEntries.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FileText size={16} className="text-gray-400" />
+                {t('export.downloadCsv')}
+              </button>
+              <button
+                onClick={() => handleExport('xlsx')}
+                disabled={visibleEntries.length === 0}
+                className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <FileSpreadsheet size={16} className="text-green-600" />
+                {t('export.downloadXlsx')}
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900/50">
+                <tr>
+                  {COLUMN_KEYS.map(key => (
+                    <th key={key} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      {t(key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {pageEntries.length > 0 ? (
+                  pageEntries.map((entry, index) => {
+                    const place = (entry.after || entry.before)!;
+                    // "old → new" when a value differs between the versions
+                    const change = (key: keyof YerlesimYeri) => {
+                      const oldValue = entry.before?.[key];
+                      const newValue = entry.after?.[key];
+                      if (oldValue === undefined) return newValue || '-';
+                      if (newValue === undefined) return oldValue || '-';
+                      return oldValue === newValue ? oldValue || '-' : `${oldValue || '-'} → ${newValue || '-'}`;
+                    };
+                    return (
+                      <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="flex flex-wrap gap-1">
+                            {entryKinds(entry).map(kind => (
+                              <span key={kind} className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[kind]}`}>
+                                {t(`diff.kind.${kind}`)}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">{place.il}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{place.ilce}</td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{change('belediye')}</td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{change('mahalle')}</td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{change('durum')}</td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400">
+                      {entries.length === 0 ? t('diff.noChanges') : t('diff.noMatches')}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetDiff;
@@ -0,0 +1,273 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Search, Loader2, AlertCircle, FilterX, ExternalLink } from 'lucide-react';
+import { DatasetInfo, Filters, ShardInfo, ShardManifest, YerlesimYeri } from '../types';
+import { KIRSAL_ALAN } from '../utils/filters';
+import { serializeUrlState } from '../utils/urlState';
+import { isShardManifest, shardBaseUrl } from '../utils/shardFormat';
+import { validateDataset } from '../utils/validation';
+import { StoredDataset, datasetStoreKey, fetchLatestDataset, loadStoredDataset } from '../utils/datasetStore';
+import { fetchDatasetRegistry, findDataset } from '../utils/datasetRegistry';
+import { EMBED_COLUMNS, EmbedMessage, EmbedOptions, EmbedQuery, EmbedQueryError, buildEmbedResult, parseEmbedQuery } from '../utils/embed';
+import { useSearchEngine } from '../hooks/useSearchEngine';
+import { useShardedDataset } from '../hooks/useShardedDataset';
+import { useI18n } from '../hooks/useI18n';
+
+interface EmbedWidgetProps {
+  options: EmbedOptions;
+}
+
+// A host query waiting for its answer, with where to send it
+interface HostRequest {
+  query: EmbedQuery;
+  source: MessageEventSource;
+  origin: string;
+}
+
+const NO_SHARDS: ShardInfo[] = [];
+
+// Sandboxed host pages have an opaque origin that can only be answered with "*"
+const reply = (request: Pick<HostRequest, 'source' | 'origin'>, message: EmbedMessage) => {
+  (request.source as Window).postMessage(message, request.origin === 'null' ? '*' : request.origin);
+};
+
+/**
+ * Compact search-and-result view for partner websites (embed.html, see utils/embed.ts).
+ * The list is public, so queries are accepted from any origin and answered to the sender only.
+ * Host queries are shown one at a time and answered once the search engine has their rows.
+ */
+const EmbedWidget: React.FC<EmbedWidgetProps> = ({ options }) => {
+  const { t } = useI18n();
+  const [data, setData] = useState<YerlesimYeri[]>([]);
+  const [manifest, setManifest] = useState<ShardManifest | null>(null);
+  const [dataset, setDataset] = useState<DatasetInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState(options.searchTerm);
+  const [filters, setFilters] = useState<Filters>(options.filters);
+  const [requests, setRequests] = useState<HostRequest[]>([]);
+  const [activeRequest, setActiveRequest] = useState<HostRequest | null>(null);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', options.theme === 'koyu');
+  }, [options.theme]);
+
+  // Published list first (the one picked with veri when the host has a registry); the copy the full app stored on this device keeps the widget working offline
+  useEffect(() => {
+    const loadData = async () => {
+      const selected = findDataset(await fetchDatasetRegistry(), options.dataset);
+      setDataset(selected);
+
+      let entry: StoredDataset | null;
+      try {
+        entry = await fetchLatestDataset(selected?.url);
+      } catch (err) {
+        console.warn('Liste indirilemedi, cihazdaki kayıtlı veri deneniyor.', err);
+        entry = await loadStoredDataset(datasetStoreKey(selected?.id));
+      }
+      if (!entry) {
+        setError(t('embed.loadFailed'));
+        return;
+      }
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(entry.text);
+      } catch {
+        setError(t('error.data.gecersiz-json', { file: 'data.json' }));
+        return;
+      }
+      if (isShardManifest(raw)) {
+        setManifest(raw);
+        return;
+      }
+      // Invalid rows are left out, as in the full app's quarantine mode
+      const { data: rows } = validateDataset(raw);
+      if (rows.length === 0) {
+        setError(t('error.data.gecerli-kayit-yok'));
+        return;
+      }
+      setData(rows);
+    };
+
+    loadData().finally(() => setLoading(false));
+  }, []);
+
+  // Any query may cover the whole country, so every shard is loaded
+  const shards = useShardedDataset(
+    manifest,
+    manifest ? manifest.shards : NO_SHARDS,
+    'karantina',
+    dataset ? shardBaseUrl(dataset.url) : undefined
+  );
+  const listData = manifest ? shards.rows : data;
+  // Failed shard downloads leave the list incomplete, so queries are not answered from it
+  const failure = error || shards.error;
+  const ready = !loading && !failure && (!manifest || shards.ready);
+
+  const searchQuery = useMemo(() => ({ searchTerm, filters }), [searchTerm, filters]);
+  const { rows, facets, pending } = useSearchEngine(listData, searchQuery);
+  const visibleColumns = EMBED_COLUMNS.filter(column => !options.hiddenColumns.includes(column));
+
+  useEffect(() => {
+    if (ready && window.parent !== window) {
+      reply({ source: window.parent, origin: '*' }, { type: 'kirsal-alan:hazir', kayitSayisi: listData.length });
+    }
+  }, [ready]);
+
+  useEffect(() => {
+    if (failure && window.parent !== window) {
+      reply({ source: window.parent, origin: '*' }, { type: 'kirsal-alan:yuklenemedi', hata: failure });
+    }
+  }, [failure]);
+
+  // Without a list no query can be answered, so waiting and later ones get the load error
+  useEffect(() => {
+    if (!failure) return;
+    const unanswered = activeRequest ? [activeRequest, ...requests] : requests;
+    if (unanswered.length === 0) return;
+    unanswered.forEach(request => reply(request, { type: 'kirsal-alan:hata', id: request.query.id, hata: failure }));
+    setRequests([]);
+    setActiveRequest(null);
+  }, [failure, activeRequest, requests]);
+
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (!e.source) return;
+      try {
+        const query = parseEmbedQuery(e.data);
+        if (query) setRequests(prev => [...prev, { query, source: e.source!, origin: e.origin }]);
+      } catch (err) {
+        if (!(err instanceof EmbedQueryError)) throw err;
+        reply({ source: e.source, origin: e.origin }, { type: 'kirsal-alan:hata', id: err.id, hata: err.message });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // The next waiting query is shown in the widget...
+  useEffect(() => {
+    if (!ready || activeRequest || requests.length === 0) return;
+    const [next, ...rest] = requests;
+    setRequests(rest);
+    setSearchTerm(next.query.searchTerm);
+    setFilters(next.query.filters);
+    setActiveRequest(next);
+  }, [ready, activeRequest, requests]);
+
+  // ...and answered with its rows once the search engine has caught up with it
+  useEffect(() => {
+    if (!activeRequest || pending || failure) return;
+    reply(activeRequest, buildEmbedResult(activeRequest.query, rows));
+    setActiveRequest(null);
+  }, [activeRequest, pending, rows, failure]);
+
+  const fullListUrl = `./${serializeUrlState({ searchTerm, filters, page: 1, sort: [], dataset: options.dataset })}`;
+
+  if (failure) {
+    return (
+      <div className="p-4 text-sm text-red-600 dark:text-red-400 flex items-center gap-2" role="alert">
+        <AlertCircle size={16} className="shrink-0" />
+        {failure}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 flex flex-col gap-3 text-sm">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-grow">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="text-gray-400" size={16} />
+          </div>
+          <input
+            type="text"
+            className="block w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder={t('search.placeholder')}
+            aria-label={t('search.placeholder')}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <select
+          value={filters.il}
+          onChange={(e) => setFilters(prev => ({ ...prev, il: e.target.value, ilce: '', belediye: '', mahalle: '' }))}
+          aria-label={t('field.il')}
+          className="py-2 px-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{t('field.il')}: {t('list.filterAll')}</option>
+          {facets.il.map(option => (
+            <option key={option.value} value={option.value}>{option.value}</option>
+          ))}
+        </select>
+      </div>
+
+      {!ready || pending ? (
+        <div className="py-6 flex items-center justify-center gap-2 text-gray-500 dark:text-gray-400">
+          <Loader2 className="animate-spin text-blue-600" size={18} />
+          {t(ready ? 'list.searching' : 'app.loading')}
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="py-6 flex flex-col items-center gap-2 text-gray-500 dark:text-gray-400">
+          <FilterX size={24} className="text-gray-400" />
+          {t('list.empty')}
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                {visibleColumns.map(column => (
+                  <th key={column} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    {t(`field.${column}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.slice(0, options.rows).map((item, index) => (
+                <tr key={index}>
+                  {visibleColumns.map(column => (
+                    <td key={column} className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                      {column === 'durum' ? (
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          item.durum === KIRSAL_ALAN
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                            : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                        }`}>
+                          {item.durum}
+                        </span>
+                      ) : (
+                        item[column] || '-'
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {ready && !pending && rows.length > options.rows
+            ? t('embed.shown', { shown: options.rows, count: rows.length })
+            : t('list.found', { count: ready ? rows.length : 0 })}
+        </span>
+        <a
+          href={fullListUrl}
+          target="_blank"
+          rel="noopener"
+          className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {t('embed.openFull')}
+          <ExternalLink size={12} />
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default EmbedWidget;
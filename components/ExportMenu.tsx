@@ -0,0 +1,97 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, FileSpreadsheet, FileText, ChevronDown, Printer } from 'lucide-react';
+import { YerlesimYeri } from '../types';
+import { ExportContext, ExportFormat, exportFilteredData } from '../utils/exportUtils';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExportMenuProps {
+  data: YerlesimYeri[];
+  context: ExportContext;
+  // Opens the print layout of the list; the item is hidden without it
+  onPrint?: () => void;
+  // Set while the rows still belong to an earlier search than the one in `context`
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, context, onPrint, disabled = false }) => {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    exportFilteredData(data, context, format, locale);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || data.length === 0}
+        className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Download size={16} />
+        {t('export.button')}
+        <ChevronDown size={14} />
+      </button>
+
+      {open && !disabled && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-56 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 z-20 py-1"
+        >
+          <button
+            role="menuitem"
+            onClick={() => handleExport('csv')}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <FileText size={16} className="text-gray-400" />
+            CSV (UTF-8)
+          </button>
+          <button
+            role="menuitem"
+            onClick={() => handleExport('xlsx')}
+            className="w-full flex items-center gap-2 px-4 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <FileSpreadsheet size={16} className="text-green-600" />
+            Excel (.xlsx)
+          </button>
+          {onPrint && (
+            <button
+              role="menuitem"
+              onClick={() => {
+                setOpen(false);
+                onPrint();
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Printer size={16} className="text-gray-400" />
+              {t('export.print')}
+            </button>
+          )}
+          <div className="px-4 pt-2 pb-1 text-xs text-gray-400 dark:text-gray-500 border-t border-gray-100 dark:border-gray-700 mt-1">
+            {t('export.count', { count: data.length })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
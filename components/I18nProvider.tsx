@@ -0,0 +1,35 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, isLocale, translate } from '../utils/i18n';
+import { I18nContext, createI18n } from '../hooks/useI18n';
+
+const LOCALE_KEY = 'dil';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+  // Language given by the page (e.g. the embed widget's URL); used instead of the stored choice
+  initialLocale?: Locale | null;
+}
+
+// Holds the interface language for the whole app; the choice is kept in localStorage
+const I18nProvider: React.FC<I18nProviderProps> = ({ children, initialLocale }) => {
+  const [locale, setLocale] = useState<Locale>(() => {
+    if (initialLocale) return initialLocale;
+    const stored = localStorage.getItem(LOCALE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  });
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = translate(locale, 'app.title');
+  }, [locale]);
+
+  const value = useMemo(() => createI18n(locale, next => {
+    localStorage.setItem(LOCALE_KEY, next);
+    setLocale(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,254 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { FileUp, Upload, FileJson, FileText, Table2 } from 'lucide-react';
+import { DataQualityReport, YerlesimYeri } from '../types';
+import { CSV_MIME } from '../utils/csv';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import {
+  IMPORT_FIELDS, NO_COLUMN, ImportError, ImportField, ImportMapping, ImportResult, ImportSummaryRow,
+  columnLetter, importErrorMessage, importRows, importSummaryCsv, importSummaryRows, readSpreadsheet, serializeDataset
+} from '../utils/importer';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../utils/i18n';
+
+interface ImportPanelProps {
+  onOpen: (data: YerlesimYeri[], report: DataQualityReport, fileName: string) => void;
+}
+
+const MAX_VISIBLE_ROWS = 200;
+// Rows scanned for column choices; the official lists have a short title block
+const PREVIEW_ROWS = 20;
+
+const COLUMN_KEYS: MessageKey[] = [
+  'quality.col.row',
+  'quality.col.severity',
+  'quality.col.type',
+  'quality.col.field',
+  'quality.col.value',
+  'quality.col.message'
+];
+
+const SEVERITY_STYLES: Record<ImportSummaryRow['severity'], string> = {
+  'hata': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'uyari': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'bilgi': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+};
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ onOpen }) => {
+  const { locale, t, tx, formatNumber } = useI18n();
+  const [file, setFile] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [headerRow, setHeaderRow] = useState('');
+  const [reading, setReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const outcome = useMemo((): { result: ImportResult } | { error: string } | null => {
+    if (!file) return null;
+    try {
+      return { result: importRows(file.rows, mapping, parseInt(headerRow, 10) || undefined) };
+    } catch (err) {
+      if (!(err instanceof ImportError)) throw err;
+      return { error: importErrorMessage(locale, err) };
+    }
+  }, [file, mapping, headerRow, locale]);
+
+  const result = outcome && 'result' in outcome ? outcome.result : null;
+  const summaryRows = useMemo(() => (result ? importSummaryRows(result, locale) : []), [result, locale]);
+
+  // Column choices labelled with the header row's text, e.g. "C - Belediye"
+  const columnOptions = useMemo(() => {
+    if (!file) return [];
+    const header = file.rows[(result?.headerRow || parseInt(headerRow, 10) || 1) - 1] || [];
+    const width = Math.max(0, ...file.rows.slice(0, PREVIEW_ROWS).map(row => row.length));
+    return Array.from({ length: width }, (_, index) => ({
+      value: columnLetter(index),
+      label: `${columnLetter(index)} - ${header[index] || t('import.emptyHeader')}`
+    }));
+  }, [file, result, headerRow, t]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    setReading(true);
+    try {
+      const rows = await readSpreadsheet(new Uint8Array(await selected.arrayBuffer()));
+      setFile({ name: selected.name, rows });
+      setMapping({});
+      setHeaderRow('');
+      setReadError(null);
+    } catch (err) {
+      console.warn('Dosya okunamadı.', err);
+      setFile(null);
+      setReadError(t('import.fileError'));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value }));
+  };
+
+  const stats = result ? [
+    { label: t('import.sourceRows'), value: result.sourceRows, className: 'text-gray-900 dark:text-white' },
+    { label: t('import.imported'), value: result.data.length, className: 'text-green-600 dark:text-green-400' },
+    { label: t('import.skipped'), value: result.skipped.length, className: 'text-gray-600 dark:text-gray-300' },
+    { label: t('import.corrected'), value: result.corrected, className: 'text-blue-600 dark:text-blue-400' },
+    { label: t('quality.quarantined'), value: result.report.quarantinedRows.length, className: 'text-red-600 dark:text-red-400' }
+  ] : [];
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6">
+      <div className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col gap-3">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white font-semibold">
+          <FileUp size={20} className="text-blue-600" />
+          {t('import.title')}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {tx('import.intro', {
+            xlsx: <strong>.xlsx</strong>,
+            csv: <strong>.csv</strong>,
+            target: <strong>public/data.json</strong>
+          })}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={reading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Upload size={16} />
+            {reading ? t('import.reading') : t('import.chooseFile')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv,.txt,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {file && <span className="text-sm text-gray-600 dark:text-gray-300">{file.name}</span>}
+        </div>
+        {readError && <p className="text-sm text-red-600 dark:text-red-400">{readError}</p>}
+
+        {file && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+              {t('import.headerRow')}
+              <input
+                type="number"
+                min={1}
+                value={headerRow}
+                onChange={(e) => setHeaderRow(e.target.value)}
+                placeholder={result ? t('import.autoColumn', { column: result.headerRow }) : t('import.auto')}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="flex flex-col gap-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+                {t('import.column', { field: t(`field.${field}`) })}
+                <select
+                  value={mapping[field] || ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">
+                    {result && result.columns[field] >= 0 ? t('import.autoColumn', { column: columnLetter(result.columns[field]) }) : t('import.auto')}
+                  </option>
+                  <option value={NO_COLUMN}>{t('import.noColumn')}</option>
+                  {columnOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+        {outcome && 'error' in outcome && <p className="text-sm text-red-600 dark:text-red-400">{outcome.error}</p>}
+      </div>
+
+      {result && file && (
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+                <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+                <div className={`text-xl font-bold ${stat.className}`}>{formatNumber(stat.value)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => downloadFile(serializeDataset(result.data), 'data.json', 'application/json')}
+              disabled={result.data.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FileJson size={16} className="text-blue-600" />
+              {t('import.downloadJson')}
+            </button>
+            <button
+              onClick={() => downloadFile(importSummaryCsv(result, locale), `ice-aktarma-ozeti-${fileDateStamp()}.csv`, CSV_MIME)}
+              disabled={summaryRows.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FileText size={16} className="text-gray-400" />
+              {t('import.downloadSummary')}
+            </button>
+            <button
+              onClick={() => onOpen(result.data, result.report, file.name)}
+              disabled={result.data.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Table2 size={16} className="text-gray-400" />
+              {t('import.preview')}
+            </button>
+          </div>
+
+          {summaryRows.length > 0 && (
+            <>
+              <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900/50">
+                    <tr>
+                      {COLUMN_KEYS.map(key => (
+                        <th key={key} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          {t(key)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {summaryRows.slice(0, MAX_VISIBLE_ROWS).map((entry, index) => (
+                      <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{entry.row}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[entry.severity]}`}>
+                            {t(`severity.${entry.severity}`)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-200">{entry.kind}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{entry.field || '-'}</td>
+                        <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-300 font-mono whitespace-pre">{entry.value ? `"${entry.value}"` : '-'}</td>
+                        <td className="px-6 py-3 text-sm text-gray-500 dark:text-gray-300">{entry.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {summaryRows.length > MAX_VISIBLE_ROWS && (
+                <p className="text-xs text-center text-gray-400 dark:text-gray-500">
+                  {t('import.truncated', { shown: MAX_VISIBLE_ROWS, total: summaryRows.length })}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -1,11 +1,17 @@
-import React from 'react';
+import React, { useId, useState } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { PaginationProps } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+const maxVisiblePages = 5;
+
+const Pagination: React.FC<PaginationProps> = ({ currentPage, totalPages, onPageChange, pageSize, pageSizeOptions = [], onPageSizeChange }) => {
+  const { t, formatNumber } = useI18n();
+  const [jumpValue, setJumpValue] = useState('');
+  const jumpInputId = useId();
 
-const Pagination: React.FC<PaginationProps> = ({ currentPage, totalPages, onPageChange }) => {
   const getPageNumbers = () => {
     const pageNumbers = [];
-    const maxVisiblePages = 5;
 
     if (totalPages <= maxVisiblePages) {
       for (let i = 1; i <= totalPages; i++) {
@@ -43,48 +49,107 @@ const Pagination: React.FC<PaginationProps> = ({ currentPage, totalPages, onPage
     return pageNumbers;
   };
 
-  if (totalPages <= 1) return null;
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = parseInt(jumpValue, 10);
+    if (!Number.isFinite(page)) return;
+    onPageChange(Math.min(Math.max(page, 1), totalPages));
+    setJumpValue('');
+  };
+
+  const showPages = totalPages > 1;
+  const showPageSize = onPageSizeChange !== undefined && pageSize !== undefined;
+  // The number buttons only cover a window of pages; beyond that a page can be typed in
+  const showJump = totalPages > maxVisiblePages;
+
+  if (!showPages && !showPageSize) return null;
 
   return (
-    <div className="flex items-center justify-center space-x-2 mt-6 select-none">
-      <button
-        onClick={() => onPageChange(currentPage - 1)}
-        disabled={currentPage === 1}
-        className="p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        aria-label="Önceki Sayfa"
-      >
-        <ChevronLeft size={18} />
-      </button>
-
-      <div className="flex space-x-1">
-        {getPageNumbers().map((page, index) => (
-          <React.Fragment key={index}>
-            {page === '...' ? (
-              <span className="px-3 py-2 text-gray-500 dark:text-gray-400">...</span>
-            ) : (
+    <div className="flex flex-col items-center gap-3 mt-6">
+      {showPages && (
+        <div className="flex items-center justify-center space-x-2 select-none">
+          <button
+            onClick={() => onPageChange(currentPage - 1)}
+            disabled={currentPage === 1}
+            className="p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label={t('pagination.previous')}
+          >
+            <ChevronLeft size={18} />
+          </button>
+
+          <div className="flex space-x-1">
+            {getPageNumbers().map((page, index) => (
+              <React.Fragment key={index}>
+                {page === '...' ? (
+                  <span className="px-3 py-2 text-gray-500 dark:text-gray-400">...</span>
+                ) : (
+                  <button
+                    onClick={() => onPageChange(page as number)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                      currentPage === page
+                        ? 'bg-blue-600 text-white border border-blue-600'
+                        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {formatNumber(page as number)}
+                  </button>
+                )}
+              </React.Fragment>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onPageChange(currentPage + 1)}
+            disabled={currentPage === totalPages}
+            className="p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label={t('pagination.next')}
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      )}
+
+      {(showPageSize || showJump) && (
+        <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+          {showPageSize && (
+            <label className="flex items-center gap-2">
+              {t('pagination.perPage')}
+              <select
+                value={pageSize}
+                onChange={(e) => onPageSizeChange(Number(e.target.value))}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm py-1 px-2"
+              >
+                {pageSizeOptions.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+              {t('pagination.perPageSuffix')}
+            </label>
+          )}
+          {showJump && (
+            <form onSubmit={handleJump} className="flex items-center gap-2">
+              <label htmlFor={jumpInputId}>{t('pagination.jump')}</label>
+              <input
+                id={jumpInputId}
+                type="number"
+                min={1}
+                max={totalPages}
+                value={jumpValue}
+                onChange={(e) => setJumpValue(e.target.value)}
+                placeholder={String(currentPage)}
+                className="w-20 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm py-1 px-2"
+              />
               <button
-                onClick={() => onPageChange(page as number)}
-                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                  currentPage === page
-                    ? 'bg-blue-600 text-white border border-blue-600'
-                    : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
-                }`}
+                type="submit"
+                disabled={jumpValue === ''}
+                className="px-3 py-1 rounded-md text-sm font-medium border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {page}
+                {t('pagination.go')}
               </button>
-            )}
-          </React.Fragment>
-        ))}
-      </div>
-
-      <button
-        onClick={() => onPageChange(currentPage + 1)}
-        disabled={currentPage === totalPages}
-        className="p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        aria-label="Sonraki Sayfa"
-      >
-        <ChevronRight size={18} />
-      </button>
+            </form>
+          )}
+        </div>
+      )}
     </div>
   );
 };
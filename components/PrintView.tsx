@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { DatasetInfo, PrintJob, YerlesimYeri } from '../types';
+import { KIRSAL_ALAN, formatFilterValue } from '../utils/filters';
+import { useI18n } from '../hooks/useI18n';
+
+interface PrintViewProps {
+  job: PrintJob;
+  // List of the dataset registry the rows come from; null for the built-in IPARD III list
+  dataset: DatasetInfo | null;
+  datasetDate: string;
+  // Version label of the loaded data.json, when known
+  datasetLabel?: string;
+}
+
+// Rows per printed A4 page of the report; the first page also carries the query details
+const FIRST_PAGE_ROWS = 28;
+const PAGE_ROWS = 36;
+
+const COLUMNS = ['il', 'ilce', 'belediye', 'mahalle', 'durum'] as const;
+
+const PAGE_STYLE = '@page { size: A4 portrait; margin: 15mm; }';
+
+const paginate = (rows: YerlesimYeri[]): YerlesimYeri[][] => {
+  const pages = [rows.slice(0, FIRST_PAGE_ROWS)];
+  for (let start = FIRST_PAGE_ROWS; start < rows.length; start += PAGE_ROWS) {
+    pages.push(rows.slice(start, start + PAGE_ROWS));
+  }
+  return pages;
+};
+
+/**
+ * Print-only layout: hidden on screen, replaces the app when the page is printed or saved as PDF.
+ * It is rendered into <body> next to the app root, which is hidden in print. Colors are fixed
+ * (no dark variants) so the printout looks the same in both themes.
+ */
+const PrintView: React.FC<PrintViewProps> = ({ job, dataset, datasetDate, datasetLabel }) => {
+  // Query timestamp: the moment the printout was requested
+  const { t, formatNumber, formatDate } = useI18n();
+  const [printedAt] = useState(() => new Date());
+  const timestamp = formatDate(printedAt, { dateStyle: 'long', timeStyle: 'short' });
+  const sourceNote = t('print.source', {
+    source: dataset ? (dataset.description || dataset.title).replace(/\.$/, '') : t('print.defaultSource', { date: datasetDate })
+  });
+  const listName = dataset ? dataset.title : t('print.defaultList');
+
+  if (job.kind === 'belge') {
+    const { item } = job;
+    const rural = item.durum === KIRSAL_ALAN;
+    const rows: [string, string][] = [
+      [t('field.il'), item.il],
+      [t('field.ilce'), item.ilce],
+      [t('field.belediye'), item.belediye || '-'],
+      [t('print.mahalle'), item.mahalle]
+    ];
+    if (item.kod) rows.push([t('field.kod'), item.kod]);
+
+    return createPortal(
+      <div className="hidden print:block bg-white text-black text-[11pt]">
+        <style>{PAGE_STYLE}</style>
+        <div className="border-b-2 border-black pb-3 mb-6">
+          <h1 className="text-xl font-bold uppercase tracking-wide">{t('print.certificate.title')}</h1>
+          <p className="text-sm">{t('print.certificate.subtitle', { list: listName })}</p>
+        </div>
+
+        <table className="w-full border-collapse mb-6">
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <th scope="row" className="w-48 text-left font-semibold border border-gray-400 px-3 py-2 bg-gray-100">{label}</th>
+                <td className="border border-gray-400 px-3 py-2">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="border-2 border-black px-4 py-5 mb-6 text-center">
+          <p className="text-sm mb-1">{t('field.durum')}</p>
+          <p className="text-2xl font-bold uppercase">{item.durum}</p>
+          <p className="text-sm mt-2">
+            {t(rural ? 'print.certificate.rural' : 'print.certificate.notRural', { mahalle: item.mahalle, il: item.il, ilce: item.ilce })}
+          </p>
+        </div>
+
+        <dl className="grid grid-cols-[12rem_1fr] gap-y-1 text-sm mb-8">
+          <dt className="font-semibold">{t('print.referenceDate')}</dt>
+          <dd>{item.referansTarihi || datasetDate}</dd>
+          {item.dayanak && (
+            <>
+              <dt className="font-semibold">{t('field.dayanak')}</dt>
+              <dd>{item.dayanak}</dd>
+            </>
+          )}
+          {datasetLabel && (
+            <>
+              <dt className="font-semibold">{t('print.dataVersion')}</dt>
+              <dd>{datasetLabel}</dd>
+            </>
+          )}
+          <dt className="font-semibold">{t('print.queriedAt')}</dt>
+          <dd>{timestamp}</dd>
+        </dl>
+
+        <p className="text-xs border-t border-gray-400 pt-3">{sourceNote}</p>
+      </div>,
+      document.body
+    );
+  }
+
+  const pages = paginate(job.rows);
+  const kirsal = job.rows.filter(item => item.durum === KIRSAL_ALAN).length;
+  const filterText = COLUMNS.filter(key => job.filters[key])
+    .map(key => `${t(`field.${key}`)}: ${formatFilterValue(job.filters[key])}`)
+    .join('; ');
+
+  return createPortal(
+    <div className="hidden print:block bg-white text-black text-[9pt]">
+      <style>{PAGE_STYLE}</style>
+      {pages.map((pageRows, pageIndex) => {
+        const firstRow = pageIndex === 0 ? 0 : FIRST_PAGE_ROWS + (pageIndex - 1) * PAGE_ROWS;
+        return (
+          <section key={pageIndex} className={pageIndex < pages.length - 1 ? 'break-after-page' : ''}>
+            <div className="flex items-end justify-between border-b border-black pb-1 mb-2">
+              <h1 className="text-sm font-bold">{t('print.report.title')}</h1>
+              <span>{t('list.pageOf', { page: pageIndex + 1, total: pages.length })}</span>
+            </div>
+
+            {pageIndex === 0 && (
+              <dl className="grid grid-cols-[10rem_1fr] gap-y-0.5 mb-3">
+                <dt className="font-semibold">{t('print.dataset')}</dt>
+                <dd>{listName}</dd>
+                <dt className="font-semibold">{t('print.report.search')}</dt>
+                <dd>{job.searchTerm || '-'}</dd>
+                <dt className="font-semibold">{t('print.report.filters')}</dt>
+                <dd>{filterText || t('print.report.noFilters')}</dd>
+                <dt className="font-semibold">{t('print.report.count')}</dt>
+                <dd>
+                  {t('print.report.countValue', { total: job.rows.length, kirsal, kirsalDegil: job.rows.length - kirsal })}
+                </dd>
+                <dt className="font-semibold">{t('print.referenceDate')}</dt>
+                <dd>{datasetLabel ? t('print.report.dateWithVersion', { date: datasetDate, label: datasetLabel }) : datasetDate}</dd>
+                <dt className="font-semibold">{t('print.queriedAt')}</dt>
+                <dd>{timestamp}</dd>
+              </dl>
+            )}
+
+            <table className="w-full border-collapse">
+              <thead>
+                <tr>
+                  <th className="border border-gray-400 px-1.5 py-1 text-right w-12 bg-gray-100">#</th>
+                  {COLUMNS.map(key => (
+                    <th key={key} className="border border-gray-400 px-1.5 py-1 text-left bg-gray-100">{t(`field.${key}`)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((item, index) => (
+                  <tr key={index}>
+                    <td className="border border-gray-400 px-1.5 py-0.5 text-right">{formatNumber(firstRow + index + 1)}</td>
+                    <td className="border border-gray-400 px-1.5 py-0.5">{item.il}</td>
+                    <td className="border border-gray-400 px-1.5 py-0.5">{item.ilce}</td>
+                    <td className="border border-gray-400 px-1.5 py-0.5">{item.belediye || '-'}</td>
+                    <td className="border border-gray-400 px-1.5 py-0.5">{item.mahalle}</td>
+                    <td className="border border-gray-400 px-1.5 py-0.5">{item.durum}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <p className="text-[8pt] mt-2">{sourceNote}</p>
+          </section>
+        );
+      })}
+    </div>,
+    document.body
+  );
+};
+
+export default PrintView;
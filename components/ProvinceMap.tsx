@@ -0,0 +1,231 @@
+import React, { useState, useMemo, useRef, useLayoutEffect } from 'react';
+import { ArrowLeft, List } from 'lucide-react';
+import { StatsRow, YerlesimYeri } from '../types';
+import { aggregateBy, formatRatio } from '../utils/statistics';
+import { MAP_VIEWBOX, PROVINCE_SHAPES, ProvinceShape, provinceKey } from '../utils/provinceShapes';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProvinceMapProps {
+  data: YerlesimYeri[];
+  selectedIl: string;
+  onSelectIl: (il: string) => void;
+  onSelectIlce: (il: string, ilce: string) => void;
+}
+
+// Rural share classes, lightest to darkest
+const BINS = [
+  { min: 0, max: 0.2, className: 'fill-green-100' },
+  { min: 0.2, max: 0.4, className: 'fill-green-200' },
+  { min: 0.4, max: 0.6, className: 'fill-green-300' },
+  { min: 0.6, max: 0.8, className: 'fill-green-500' },
+  { min: 0.8, max: 1, className: 'fill-green-700' }
+];
+
+// Room around a province zoomed into, as a share of its size
+const ZOOM_MARGIN = 0.15;
+
+const binFor = (ratio: number) => {
+  for (let i = BINS.length - 1; i >= 0; i--) {
+    if (ratio >= BINS[i].min) return BINS[i];
+  }
+  return BINS[0];
+};
+
+const Swatch: React.FC<{ className: string }> = ({ className }) => (
+  <svg width="12" height="12" className="shrink-0"><rect width="12" height="12" rx="2" className={className} /></svg>
+);
+
+/**
+ * Choropleth of the rural share per province. Choosing a province (click, Enter or Space)
+ * zooms into it and lists its districts with the same colour classes; a district or the
+ * "show in list" button filters the main table.
+ */
+const ProvinceMap: React.FC<ProvinceMapProps> = ({ data, selectedIl, onSelectIl, onSelectIlce }) => {
+  const { locale, t, formatNumber } = useI18n();
+  const [hovered, setHovered] = useState<{ shape: ProvinceShape; x: number; y: number } | null>(null);
+  const [drillKey, setDrillKey] = useState(() => provinceKey(selectedIl));
+  const [zoom, setZoom] = useState(MAP_VIEWBOX);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pathRefs = useRef(new Map<number, SVGPathElement>());
+
+  const statsByProvince = useMemo(() => {
+    const map = new Map<string, StatsRow>();
+    aggregateBy(data, 'il').forEach(row => map.set(provinceKey(row.il), row));
+    return map;
+  }, [data]);
+
+  // Provinces without records in the list cannot be drilled into
+  const drillStats = statsByProvince.get(drillKey);
+  const drillShape = (drillStats && PROVINCE_SHAPES.find(shape => provinceKey(shape.il) === drillKey)) || null;
+
+  const districts = useMemo(() => {
+    if (!drillStats) return [];
+    return aggregateBy(data.filter(item => item.il === drillStats.il), 'ilce')
+      .sort((a, b) => b.ratio - a.ratio || a.ilce.localeCompare(b.ilce, 'tr'));
+  }, [data, drillStats]);
+
+  // Fits the view to the chosen province, or to the whole country
+  useLayoutEffect(() => {
+    const path = drillShape && pathRefs.current.get(drillShape.plaka);
+    if (!path) {
+      setZoom(MAP_VIEWBOX);
+      return;
+    }
+    const box = path.getBBox();
+    const margin = Math.max(box.width, box.height) * ZOOM_MARGIN;
+    setZoom({ x: box.x - margin, y: box.y - margin, width: box.width + 2 * margin, height: box.height + 2 * margin });
+  }, [drillShape]);
+
+  const hoveredStats = hovered ? statsByProvince.get(provinceKey(hovered.shape.il)) : undefined;
+
+  const showTooltip = (shape: ProvinceShape, clientX: number, clientY: number) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    setHovered({ shape, x: clientX - bounds.left, y: clientY - bounds.top });
+  };
+
+  // Keyboard focus has no pointer position, so the tooltip is placed at the province's centre
+  const handleFocus = (shape: ProvinceShape, event: React.FocusEvent<SVGPathElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    showTooltip(shape, box.left + box.width / 2, box.top + box.height / 2);
+  };
+
+  const handleKeyDown = (shape: ProvinceShape, event: React.KeyboardEvent<SVGPathElement>) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    setDrillKey(provinceKey(shape.il));
+  };
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-4 pb-8">
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div ref={containerRef} className="relative flex-grow overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+          <svg
+            viewBox={`${zoom.x} ${zoom.y} ${zoom.width} ${zoom.height}`}
+            className="w-full min-w-[640px] h-auto"
+            role="group"
+            aria-label={t('map.label')}
+          >
+            {PROVINCE_SHAPES.map(shape => {
+              const key = provinceKey(shape.il);
+              const stats = statsByProvince.get(key);
+              const bin = stats ? binFor(stats.ratio) : null;
+              const isDrilled = key === drillKey;
+              const isSelected = !isDrilled && selectedIl !== '' && key === provinceKey(selectedIl);
+
+              return (
+                <path
+                  key={shape.plaka}
+                  ref={element => {
+                    if (element) pathRefs.current.set(shape.plaka, element);
+                    else pathRefs.current.delete(shape.plaka);
+                  }}
+                  d={shape.path}
+                  role="button"
+                  tabIndex={stats ? 0 : -1}
+                  aria-disabled={!stats}
+                  aria-pressed={isDrilled}
+                  aria-label={stats ? `${shape.il}: ${formatRatio(stats.ratio, locale)}` : `${shape.il}: ${t('map.noRecords')}`}
+                  vectorEffect="non-scaling-stroke"
+                  className={`${bin ? bin.className : 'fill-gray-200 dark:fill-gray-700'} ${
+                    drillShape && !isDrilled ? 'opacity-40' : ''
+                  } ${
+                    isDrilled || isSelected
+                      ? 'stroke-blue-600 dark:stroke-blue-400'
+                      : 'stroke-white dark:stroke-gray-800 hover:stroke-gray-500 focus-visible:stroke-blue-600'
+                  } ${stats ? 'cursor-pointer' : 'cursor-not-allowed'} outline-none transition-opacity`}
+                  strokeWidth={isDrilled || isSelected ? 2.5 : 1}
+                  onClick={() => stats && setDrillKey(key)}
+                  onKeyDown={event => stats && handleKeyDown(shape, event)}
+                  onMouseMove={event => showTooltip(shape, event.clientX, event.clientY)}
+                  onMouseLeave={() => setHovered(null)}
+                  onFocus={event => handleFocus(shape, event)}
+                  onBlur={() => setHovered(null)}
+                />
+              );
+            })}
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute z-10 pointer-events-none rounded-md shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-xs text-gray-700 dark:text-gray-200"
+              style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+            >
+              <div className="font-semibold text-gray-900 dark:text-white mb-1">{hovered.shape.il}</div>
+              {hoveredStats ? (
+                <>
+                  <div>{t('status.kirsal')}: <span className="text-green-700 dark:text-green-400">{formatNumber(hoveredStats.kirsal)}</span></div>
+                  <div>{t('status.kirsalDegil')}: <span className="text-red-700 dark:text-red-400">{formatNumber(hoveredStats.kirsalDegil)}</span></div>
+                  <div>{t('stats.total')}: {formatNumber(hoveredStats.total)}</div>
+                  <div className="font-medium mt-1">{t('stats.ratio')}: {formatRatio(hoveredStats.ratio, locale)}</div>
+                </>
+              ) : (
+                <div className="text-gray-400">{t('map.noRecords')}</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {drillShape && drillStats && (
+          <div className="lg:w-80 shrink-0 rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-col max-h-[32rem]">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-col gap-2">
+              <button
+                onClick={() => setDrillKey('')}
+                className="self-start inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <ArrowLeft size={14} />
+                {t('map.back')}
+              </button>
+              <h2 className="text-base font-semibold text-gray-900 dark:text-white">{t('map.districts', { il: drillStats.il })}</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t('status.kirsal')}: {formatNumber(drillStats.kirsal)} · {t('stats.total')}: {formatNumber(drillStats.total)} · {formatRatio(drillStats.ratio, locale)}
+              </p>
+              <button
+                onClick={() => onSelectIl(drillStats.il)}
+                className="self-start inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <List size={14} />
+                {t('map.showInList')}
+              </button>
+            </div>
+            <ul className="overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {districts.map(row => (
+                <li key={row.ilce}>
+                  <button
+                    onClick={() => onSelectIlce(row.il, row.ilce)}
+                    className="w-full px-4 py-2 flex items-center gap-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    title={t('stats.barTitle', { name: row.ilce, kirsal: row.kirsal, kirsalDegil: row.kirsalDegil })}
+                  >
+                    <Swatch className={binFor(row.ratio).className} />
+                    <span className="flex-grow truncate text-gray-900 dark:text-gray-100">{row.ilce}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{formatNumber(row.kirsal)}/{formatNumber(row.total)}</span>
+                    <span className="w-14 text-right text-xs font-medium text-gray-700 dark:text-gray-200">{formatRatio(row.ratio, locale)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-500 dark:text-gray-400">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-medium">{t('map.legend')}</span>
+          {BINS.map(bin => (
+            <span key={bin.min} className="flex items-center gap-1">
+              <Swatch className={bin.className} />
+              {formatNumber(bin.min, { style: 'percent' })} – {formatNumber(bin.max, { style: 'percent' })}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <Swatch className="fill-gray-200 dark:fill-gray-700" />
+            {t('map.noData')}
+          </span>
+        </div>
+        <span>{t('map.hint')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ProvinceMap;
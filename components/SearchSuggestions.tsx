@@ -0,0 +1,64 @@
+import React from 'react';
+import { SearchSuggestion } from '../types';
+import { TREE_LEVELS } from '../utils/settlementTree';
+import { useI18n } from '../hooks/useI18n';
+
+interface SearchSuggestionsProps {
+  id: string;
+  suggestions: SearchSuggestion[];
+  // Index into suggestions of the option highlighted with the arrow keys, -1 for none
+  activeIndex: number;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onActivate: (index: number) => void;
+}
+
+export const suggestionOptionId = (listId: string, index: number) => `${listId}-${index}`;
+
+// Dropdown under the search box, grouped by level. Focus stays in the input (combobox
+// pattern), so the options are only highlighted via aria-activedescendant.
+const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({ id, suggestions, activeIndex, onSelect, onActivate }) => {
+  const { t, formatNumber } = useI18n();
+  const depths = Array.from(new Set(suggestions.map(suggestion => suggestion.depth)));
+
+  return (
+    <div
+      id={id}
+      role="listbox"
+      aria-label={t('search.suggestions')}
+      // Keeps the input focused, otherwise its blur would close the list before the click lands
+      onMouseDown={(e) => e.preventDefault()}
+      className="absolute left-0 right-0 top-full mt-1 z-20 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1 text-sm"
+    >
+      {depths.map(depth => (
+        <div key={depth} role="group" aria-labelledby={`${id}-group-${depth}`}>
+          <div id={`${id}-group-${depth}`} className="px-3 pt-2 pb-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+            {t(`field.${TREE_LEVELS[depth]}`)}
+          </div>
+          {suggestions.map((suggestion, index) => suggestion.depth === depth && (
+            <div
+              key={suggestion.values.join('|')}
+              id={suggestionOptionId(id, index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              onClick={() => onSelect(suggestion)}
+              onMouseMove={() => index !== activeIndex && onActivate(index)}
+              className={`px-3 py-1.5 flex items-center gap-2 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+              }`}
+            >
+              <span className="font-medium text-gray-900 dark:text-gray-100">{suggestion.values[depth]}</span>
+              {depth > 0 && (
+                <span className="truncate text-xs text-gray-400 dark:text-gray-500">
+                  {suggestion.values.slice(0, depth).filter(Boolean).join(' › ')}
+                </span>
+              )}
+              <span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{formatNumber(suggestion.count)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchSuggestions;
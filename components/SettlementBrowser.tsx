@@ -0,0 +1,231 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { SettlementTreeNode, YerlesimYeri } from '../types';
+import { TREE_LEVELS, buildTreeLevel } from '../utils/settlementTree';
+import { I18n, useI18n } from '../hooks/useI18n';
+
+interface SettlementBrowserProps {
+  data: YerlesimYeri[];
+  onSelect: (node: SettlementTreeNode) => void;
+}
+
+// A node as rendered: its position among its siblings is announced by screen readers
+interface VisibleNode {
+  node: SettlementTreeNode;
+  parentId: string | null;
+  setSize: number;
+  position: number;
+}
+
+const LEAF_DEPTH = TREE_LEVELS.length - 1;
+
+const nodeLabel = (node: SettlementTreeNode, t: I18n['t']): string => {
+  const value = node.values[node.depth];
+  if (value) return value;
+  return TREE_LEVELS[node.depth] === 'belediye' ? t('browser.noBelediye') : '-';
+};
+
+// Tree of the loaded list, opened one level at a time. Follows the WAI-ARIA tree pattern:
+// arrows move and open/close, Enter shows the node in the list, letters jump by name.
+const SettlementBrowser: React.FC<SettlementBrowserProps> = ({ data, onSelect }) => {
+  const { t, formatNumber } = useI18n();
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const itemRefs = useRef(new Map<string, HTMLLIElement>());
+
+  // Children are grouped the first time their parent is opened
+  const childCache = useMemo(() => new Map<string, SettlementTreeNode[]>(), [data]);
+  const roots = useMemo(() => buildTreeLevel(data, 0), [data]);
+
+  useEffect(() => {
+    setExpanded(new Set());
+    setFocusedId(null);
+  }, [data]);
+
+  const childrenOf = (node: SettlementTreeNode): SettlementTreeNode[] => {
+    let children = childCache.get(node.id);
+    if (!children) {
+      children = buildTreeLevel(node.rows, node.depth + 1, node.values);
+      childCache.set(node.id, children);
+    }
+    return children;
+  };
+
+  const visible = useMemo(() => {
+    const result: VisibleNode[] = [];
+    const walk = (nodes: SettlementTreeNode[], parentId: string | null) => {
+      nodes.forEach((node, index) => {
+        result.push({ node, parentId, setSize: nodes.length, position: index + 1 });
+        if (expanded.has(node.id)) walk(childrenOf(node), node.id);
+      });
+    };
+    walk(roots, null);
+    return result;
+  }, [roots, expanded, childCache]);
+
+  const activeId = focusedId !== null && visible.some(item => item.node.id === focusedId)
+    ? focusedId
+    : visible[0]?.node.id ?? null;
+
+  const focusNode = (id: string) => {
+    setFocusedId(id);
+    itemRefs.current.get(id)?.focus();
+  };
+
+  const setNodeExpanded = (id: string, open: boolean) => {
+    setExpanded(prev => {
+      if (prev.has(id) === open) return prev;
+      const next = new Set(prev);
+      if (open) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const { node, parentId } = visible[index];
+    const isOpen = expanded.has(node.id);
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (index < visible.length - 1) focusNode(visible[index + 1].node.id);
+        break;
+      case 'ArrowUp':
+        if (index > 0) focusNode(visible[index - 1].node.id);
+        break;
+      case 'ArrowRight':
+        if (node.depth === LEAF_DEPTH) break;
+        if (!isOpen) setNodeExpanded(node.id, true);
+        else if (visible[index + 1]?.parentId === node.id) focusNode(visible[index + 1].node.id);
+        break;
+      case 'ArrowLeft':
+        if (isOpen) setNodeExpanded(node.id, false);
+        else if (parentId !== null) focusNode(parentId);
+        break;
+      case 'Home':
+        focusNode(visible[0].node.id);
+        break;
+      case 'End':
+        focusNode(visible[visible.length - 1].node.id);
+        break;
+      case 'Enter':
+        onSelect(node);
+        break;
+      case ' ':
+        if (node.depth < LEAF_DEPTH) setNodeExpanded(node.id, !isOpen);
+        break;
+      default: {
+        // Type-ahead: next visible node whose name starts with the typed letter
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return;
+        const letter = e.key.toLocaleLowerCase('tr');
+        for (let step = 1; step <= visible.length; step++) {
+          const candidate = visible[(index + step) % visible.length].node;
+          if (nodeLabel(candidate, t).toLocaleLowerCase('tr').startsWith(letter)) {
+            focusNode(candidate.id);
+            break;
+          }
+        }
+      }
+    }
+    e.preventDefault();
+  };
+
+  if (data.length === 0) {
+    return (
+      <div className="flex-grow w-full max-w-7xl mx-auto pb-8 text-center text-gray-500 dark:text-gray-400 py-12">
+        {t('browser.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-4 pb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('browser.hint')}
+        </p>
+        {expanded.size > 0 && (
+          <button
+            onClick={() => setExpanded(new Set())}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {t('browser.collapseAll')}
+          </button>
+        )}
+      </div>
+
+      <ul
+        role="tree"
+        aria-label={t('browser.treeLabel')}
+        className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 divide-y divide-gray-100 dark:divide-gray-700/50"
+      >
+        {visible.map(({ node, setSize, position }, index) => {
+          const isLeaf = node.depth === LEAF_DEPTH;
+          const isOpen = expanded.has(node.id);
+          const level = TREE_LEVELS[node.depth];
+
+          return (
+            <li
+              key={node.id}
+              ref={element => {
+                if (element) itemRefs.current.set(node.id, element);
+                else itemRefs.current.delete(node.id);
+              }}
+              role="treeitem"
+              aria-level={node.depth + 1}
+              aria-setsize={setSize}
+              aria-posinset={position}
+              aria-expanded={isLeaf ? undefined : isOpen}
+              aria-label={t('browser.nodeLabel', {
+                level: t(`field.${level}`),
+                name: nodeLabel(node, t),
+                kirsal: node.kirsal,
+                kirsalDegil: node.kirsalDegil
+              })}
+              tabIndex={node.id === activeId ? 0 : -1}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              onFocus={() => setFocusedId(node.id)}
+              onClick={() => onSelect(node)}
+              className="flex items-center gap-2 py-2 pr-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 focus:outline-none focus:bg-blue-50 dark:focus:bg-blue-900/30 transition-colors"
+              style={{ paddingLeft: `${0.5 + node.depth * 1.5}rem` }}
+            >
+              {isLeaf ? (
+                <span className="w-6 shrink-0" />
+              ) : (
+                <button
+                  tabIndex={-1}
+                  aria-hidden="true"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setFocusedId(node.id);
+                    setNodeExpanded(node.id, !isOpen);
+                  }}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <ChevronRight size={16} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                </button>
+              )}
+              <span className="flex-grow min-w-0 truncate text-sm text-gray-900 dark:text-gray-100">
+                {nodeLabel(node, t)}
+                <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">{t(`field.${level}`)}</span>
+              </span>
+              <span className="shrink-0 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" title={t('status.kirsal')}>
+                {formatNumber(node.kirsal)}
+              </span>
+              <span className="shrink-0 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" title={t('status.kirsalDegil')}>
+                {formatNumber(node.kirsalDegil)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500 inline-block" /> {t('status.kirsal')}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-400 inline-block" /> {t('status.kirsalDegil')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default SettlementBrowser;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { SettlementDetailField, YerlesimYeri } from '../types';
+import { DETAIL_FIELDS } from '../utils/filters';
+import { useI18n } from '../hooks/useI18n';
+
+interface SettlementDetailsProps {
+  item: YerlesimYeri;
+  // List-wide reference date, shown when the record has none of its own
+  datasetDate: string;
+}
+
+// Expanded row of the list: provenance of a single settlement's status
+const SettlementDetails: React.FC<SettlementDetailsProps> = ({ item, datasetDate }) => {
+  const { t, formatNumber } = useI18n();
+  const hasDetails = DETAIL_FIELDS.some(key => item[key] !== undefined);
+
+  const values: Record<SettlementDetailField, string> = {
+    kod: item.kod || t('row.notSpecified'),
+    nufus: item.nufus !== undefined ? formatNumber(item.nufus) : t('row.notSpecified'),
+    referansTarihi: item.referansTarihi || t('row.datasetWide', { date: datasetDate }),
+    dayanak: item.dayanak || t('row.notSpecified')
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {DETAIL_FIELDS.map(key => (
+          <div key={key} className="rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+            <dt className="text-xs text-gray-500 dark:text-gray-400">{t(`field.${key}`)}</dt>
+            <dd className={`text-sm font-medium break-words ${
+              item[key] !== undefined ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'
+            }`}>
+              {values[key]}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {!hasDetails && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('row.noDetails', { date: datasetDate })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SettlementDetails;
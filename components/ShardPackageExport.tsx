@@ -0,0 +1,43 @@
+import React from 'react';
+import { Package } from 'lucide-react';
+import { YerlesimYeri } from '../types';
+import { buildShardPackage } from '../utils/shardFormat';
+import { createZip } from '../utils/zip';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+
+interface ShardPackageExportProps {
+  data: YerlesimYeri[];
+  datasetVersion: string;
+}
+
+// Converts the loaded list into the per-il format; the zip is extracted into public/ next to data.json
+const ShardPackageExport: React.FC<ShardPackageExportProps> = ({ data, datasetVersion }) => {
+  const { t, tx } = useI18n();
+
+  const handleDownload = () => {
+    const zip = createZip(buildShardPackage(data, datasetVersion));
+    downloadFile(zip, `parcali-veri-${fileDateStamp()}.zip`, 'application/zip');
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto mt-6 rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+      <div className="flex-grow text-sm text-gray-600 dark:text-gray-300">
+        <p className="font-semibold text-gray-900 dark:text-white mb-1">{t('shards.title')}</p>
+        <p>
+          {tx('shards.intro', { folder: <strong>veri</strong>, target: <strong>public/</strong> })}
+        </p>
+      </div>
+      <button
+        onClick={handleDownload}
+        disabled={data.length === 0}
+        className="flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 shrink-0"
+      >
+        <Package size={16} className="text-gray-400" />
+        {t('shards.download')}
+      </button>
+    </div>
+  );
+};
+
+export default ShardPackageExport;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { SettlementField, SortKey } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface SortableHeaderProps {
+  field: SettlementField;
+  label: string;
+  sort: SortKey[];
+  onSort: (field: SettlementField, e: React.MouseEvent) => void;
+}
+
+// Column title that sorts the table; the number shows the key's position when several are active
+const SortableHeader: React.FC<SortableHeaderProps> = ({ field, label, sort, onSort }) => {
+  const { t } = useI18n();
+  const position = sort.findIndex(key => key.field === field);
+  const key = position === -1 ? null : sort[position];
+  const Icon = !key ? ArrowUpDown : key.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => onSort(field, e)}
+      title={t('list.sortHint')}
+      className={`flex items-center gap-1 uppercase tracking-wider transition-colors ${
+        key ? 'text-blue-600 dark:text-blue-400' : 'hover:text-gray-700 dark:hover:text-gray-200'
+      }`}
+    >
+      {label}
+      <Icon size={12} className={key ? '' : 'opacity-50'} />
+      {key && sort.length > 1 && <span className="text-[10px] font-bold">{position + 1}</span>}
+    </button>
+  );
+};
+
+export default SortableHeader;
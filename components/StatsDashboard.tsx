@@ -0,0 +1,252 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown, X, Loader2 } from 'lucide-react';
+import { Filters, StatsLevel, StatsRow, YerlesimYeri } from '../types';
+import { aggregateBy, formatRatio, summarize } from '../utils/statistics';
+import { FILTER_LABELS, formatFilterValue } from '../utils/filters';
+import { useI18n } from '../hooks/useI18n';
+import Pagination from './Pagination';
+
+interface StatsDashboardProps {
+  data: YerlesimYeri[];
+  filters: Filters;
+  pending: boolean;
+  onApplyFilters: (values: Partial<Filters>) => void;
+}
+
+type SortKey = 'name' | 'kirsal' | 'kirsalDegil' | 'total' | 'ratio';
+
+const ITEMS_PER_PAGE = 50;
+const CHART_ROWS = 20;
+
+const LEVELS: StatsLevel[] = ['il', 'ilce', 'belediye'];
+
+const NEXT_LEVEL: Record<StatsLevel, StatsLevel> = {
+  il: 'ilce',
+  ilce: 'belediye',
+  belediye: 'belediye'
+};
+
+const rowName = (row: StatsRow, level: StatsLevel): string => {
+  if (level === 'il') return row.il;
+  if (level === 'ilce') return row.ilce;
+  return row.belediye || '-';
+};
+
+// Parent names shown next to the row name, e.g. "ADANA" for an ilçe
+const rowParent = (row: StatsRow, level: StatsLevel): string => {
+  if (level === 'ilce') return row.il;
+  if (level === 'belediye') return `${row.il} / ${row.ilce}`;
+  return '';
+};
+
+const compareNames = (a: StatsRow, b: StatsRow): number =>
+  a.il.localeCompare(b.il, 'tr') || a.ilce.localeCompare(b.ilce, 'tr') || a.belediye.localeCompare(b.belediye, 'tr');
+
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ data, filters, pending, onApplyFilters }) => {
+  const { locale, t, formatNumber } = useI18n();
+  const [level, setLevel] = useState<StatsLevel>('il');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'total', direction: 'desc' });
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const summary = useMemo(() => summarize(data), [data]);
+
+  const rows = useMemo(() => {
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return aggregateBy(data, level).sort((a, b) => {
+      const diff = sort.key === 'name' ? compareNames(a, b) : a[sort.key] - b[sort.key];
+      // Ties fall back to alphabetical order
+      return sign * diff || compareNames(a, b);
+    });
+  }, [data, level, sort]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [data, level, sort]);
+
+  const chartRows = rows.slice(0, CHART_ROWS);
+  const chartMax = Math.max(1, ...chartRows.map(row => row.total));
+  const totalPages = Math.ceil(rows.length / ITEMS_PER_PAGE);
+  const pageRows = rows.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
+
+  const activeFilters = (Object.keys(FILTER_LABELS) as (keyof Filters)[]).filter(key => filters[key]);
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'name' ? 'asc' : 'desc' });
+  };
+
+  // Drill down: apply the row as a filter and move one level deeper. Narrower filters are
+  // cleared, as they may belong to another il/ilçe and would leave the row empty
+  const handleDrillDown = (row: StatsRow) => {
+    if (level === 'il') onApplyFilters({ il: row.il, ilce: '', belediye: '', mahalle: '' });
+    else if (level === 'ilce') onApplyFilters({ il: row.il, ilce: row.ilce, belediye: '', mahalle: '' });
+    else onApplyFilters({ il: row.il, ilce: row.ilce, belediye: row.belediye, mahalle: '' });
+    setLevel(NEXT_LEVEL[level]);
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sort.key !== key) return <ArrowUpDown size={12} className="opacity-40" />;
+    return sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />;
+  };
+
+  const columns: { key: SortKey; label: string; align: string }[] = [
+    { key: 'name', label: t(`field.${level}`), align: 'text-left' },
+    { key: 'kirsal', label: t('status.kirsal'), align: 'text-right' },
+    { key: 'kirsalDegil', label: t('status.kirsalDegil'), align: 'text-right' },
+    { key: 'total', label: t('stats.total'), align: 'text-right' },
+    { key: 'ratio', label: t('stats.ratio'), align: 'text-left' }
+  ];
+
+  const stats = [
+    { label: t('stats.settlements'), value: formatNumber(summary.total), className: 'text-gray-900 dark:text-white' },
+    { label: t('status.kirsal'), value: formatNumber(summary.kirsal), className: 'text-green-600 dark:text-green-400' },
+    { label: t('status.kirsalDegil'), value: formatNumber(summary.kirsalDegil), className: 'text-red-600 dark:text-red-400' },
+    { label: t('stats.ratio'), value: formatRatio(summary.ratio, locale), className: 'text-blue-600 dark:text-blue-400' }
+  ];
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6 pb-8">
+      {activeFilters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-500 dark:text-gray-400">{t('stats.activeFilters')}</span>
+          {activeFilters.map(key => (
+            <span key={key} className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+              {t(`field.${key}`)}: {formatFilterValue(filters[key])}
+              <button onClick={() => onApplyFilters({ [key]: '' })} aria-label={t('stats.removeFilter', { field: t(`field.${key}`) })}>
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+            <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-2">
+              {stat.label}
+              {pending && <Loader2 className="animate-spin text-blue-600" size={12} />}
+            </div>
+            <div className={`text-2xl font-bold ${stat.className}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {LEVELS.map(key => (
+          <button
+            key={key}
+            onClick={() => setLevel(key)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium border transition-colors ${
+              level === key
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {t('stats.byLevel', { level: t(`field.${key}`) })}
+          </button>
+        ))}
+      </div>
+
+      {chartRows.length > 0 && (
+        <div className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {t('stats.chartTitle', {
+                count: chartRows.length,
+                level: t(`field.${level}`),
+                column: columns.find(c => c.key === sort.key)?.label ?? ''
+              })}
+            </h2>
+            <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500 inline-block" /> {t('status.kirsal')}</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-400 inline-block" /> {t('status.kirsalDegil')}</span>
+            </div>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            {chartRows.map(row => (
+              <button
+                key={`${row.il}|${row.ilce}|${row.belediye}`}
+                onClick={() => handleDrillDown(row)}
+                className="flex items-center gap-3 text-left group"
+                title={t('stats.barTitle', { name: rowName(row, level), kirsal: row.kirsal, kirsalDegil: row.kirsalDegil })}
+              >
+                <span className="w-40 shrink-0 truncate text-xs text-gray-700 dark:text-gray-200 group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                  {rowName(row, level)}
+                  {rowParent(row, level) && <span className="text-gray-400"> · {rowParent(row, level)}</span>}
+                </span>
+                <span className="flex-grow flex h-4 rounded-sm overflow-hidden bg-gray-100 dark:bg-gray-700">
+                  <span className="bg-green-500 h-full" style={{ width: `${(row.kirsal / chartMax) * 100}%` }} />
+                  <span className="bg-red-400 h-full" style={{ width: `${(row.kirsalDegil / chartMax) * 100}%` }} />
+                </span>
+                <span className="w-16 shrink-0 text-right text-xs text-gray-500 dark:text-gray-400">{formatRatio(row.ratio, locale)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900/50">
+            <tr>
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  className={`px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider ${column.align}`}
+                >
+                  <button onClick={() => handleSort(column.key)} className="inline-flex items-center gap-1 uppercase hover:text-gray-700 dark:hover:text-gray-200">
+                    {column.label}
+                    {sortIcon(column.key)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {pageRows.length > 0 ? (
+              pageRows.map(row => (
+                <tr key={`${row.il}|${row.ilce}|${row.belediye}`} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => handleDrillDown(row)}
+                      className="font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                      title={t('stats.drillDown')}
+                    >
+                      {rowName(row, level)}
+                    </button>
+                    {rowParent(row, level) && <span className="ml-2 text-xs text-gray-400">{rowParent(row, level)}</span>}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-green-700 dark:text-green-400">{formatNumber(row.kirsal)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-700 dark:text-red-400">{formatNumber(row.kirsalDegil)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-700 dark:text-gray-200">{formatNumber(row.total)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-200">
+                    <div className="flex items-center gap-2">
+                      <span className="w-24 h-2 rounded-full bg-red-200 dark:bg-red-900/40 overflow-hidden">
+                        <span className="block h-full bg-green-500" style={{ width: `${row.ratio * 100}%` }} />
+                      </span>
+                      {formatRatio(row.ratio, locale)}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-gray-500 dark:text-gray-400">
+                  {t('list.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+    </div>
+  );
+};
+
+export default StatsDashboard;
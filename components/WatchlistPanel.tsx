@@ -0,0 +1,308 @@
+import React, { useState, useRef } from 'react';
+import { Star, Bookmark, Download, Upload, Trash2, Search, Check, AlertCircle } from 'lucide-react';
+import { Filters, SavedSearch, SortKey, WatchCheck, WatchState, WatchedSettlement, Watchlist } from '../types';
+import { FILTER_LABELS, KIRSAL_ALAN, formatFilterValue } from '../utils/filters';
+import { WatchlistFormatError, createSearchId, mergeWatchlists, parseWatchlistFile, serializeWatchlist, watchKey, watchlistErrorMessage } from '../utils/watchlist';
+import { downloadFile, fileDateStamp } from '../utils/download';
+import { I18n, useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../utils/i18n';
+
+interface CurrentSearch {
+  searchTerm: string;
+  filters: Filters;
+  sort: SortKey[];
+}
+
+interface WatchlistPanelProps {
+  watchlist: Watchlist;
+  checks: Map<string, WatchCheck>;
+  currentSearch: CurrentSearch;
+  // Dataset registry id of the loaded list
+  dataset: string;
+  onChange: (watchlist: Watchlist) => void;
+  onShowSettlement: (item: WatchedSettlement) => void;
+  onApplySearch: (search: SavedSearch) => void;
+}
+
+// Changed and missing settlements are listed first
+const STATE_ORDER: Record<WatchState, number> = { 'degisti': 0, 'bulunamadi': 1, 'yuklenmedi': 2, 'baska-liste': 3, 'ayni': 4 };
+
+const COLUMN_KEYS: MessageKey[] = ['watch.col.settlement', 'field.durum', 'watch.col.note'];
+
+const STATE_CLASSES: Record<WatchState, string> = {
+  'degisti': 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  'bulunamadi': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'yuklenmedi': 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  'baska-liste': 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  'ayni': 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+};
+
+const durumBadge = (durum: string) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+    durum === KIRSAL_ALAN
+      ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+      : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+  }`}>
+    {durum || '-'}
+  </span>
+);
+
+// "“çamlı” · İl: ADANA · Durum: Kırsal Alan"
+const describeSearch = ({ searchTerm, filters }: CurrentSearch, t: I18n['t']): string => {
+  const parts = (Object.keys(FILTER_LABELS) as (keyof Filters)[])
+    .filter(key => filters[key])
+    .map(key => `${t(`field.${key}`)}: ${formatFilterValue(filters[key])}`);
+  if (searchTerm) parts.unshift(`“${searchTerm}”`);
+  return parts.length > 0 ? parts.join(' · ') : t('watch.wholeList');
+};
+
+const inputClass = 'block w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm py-1.5 px-2 focus:border-blue-500 focus:ring-blue-500';
+const buttonClass = 'flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ watchlist, checks, currentSearch, dataset, onChange, onShowSettlement, onApplySearch }) => {
+  const { locale, t } = useI18n();
+  const [searchName, setSearchName] = useState('');
+  const [searchNote, setSearchNote] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const stateOf = (item: WatchedSettlement): WatchState => checks.get(watchKey(item))?.state ?? 'yuklenmedi';
+  const settlements = [...watchlist.settlements].sort((a, b) => STATE_ORDER[stateOf(a)] - STATE_ORDER[stateOf(b)]);
+
+  const updateSettlement = (item: WatchedSettlement, patch: Partial<WatchedSettlement>) => {
+    onChange({ ...watchlist, settlements: watchlist.settlements.map(entry => (entry === item ? { ...entry, ...patch } : entry)) });
+  };
+
+  const removeSettlement = (item: WatchedSettlement) => {
+    onChange({ ...watchlist, settlements: watchlist.settlements.filter(entry => entry !== item) });
+  };
+
+  const updateSearch = (search: SavedSearch, patch: Partial<SavedSearch>) => {
+    onChange({ ...watchlist, searches: watchlist.searches.map(entry => (entry === search ? { ...entry, ...patch } : entry)) });
+  };
+
+  const removeSearch = (search: SavedSearch) => {
+    onChange({ ...watchlist, searches: watchlist.searches.filter(entry => entry !== search) });
+  };
+
+  const handleSaveSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = searchName.trim();
+    if (!name) return;
+    const search: SavedSearch = {
+      id: createSearchId(),
+      name,
+      ...currentSearch,
+      note: searchNote.trim(),
+      createdAt: new Date().toISOString()
+    };
+    onChange({ ...watchlist, searches: [...watchlist.searches, search] });
+    setSearchName('');
+    setSearchNote('');
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeWatchlist(watchlist), `takip-listesi-${fileDateStamp()}.json`, 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const merged = mergeWatchlists(watchlist, parseWatchlistFile(await file.text()));
+      onChange(merged.watchlist);
+      setMessage({ text: t('watch.imported', { file: file.name, count: merged.added }), error: false });
+    } catch (err) {
+      const error = err instanceof WatchlistFormatError ? watchlistErrorMessage(locale, err) : err instanceof Error ? err.message : String(err);
+      setMessage({ text: t('diff.readError', { file: file.name, error }), error: true });
+    }
+  };
+
+  return (
+    <div className="flex-grow w-full max-w-7xl mx-auto flex flex-col gap-6 pb-8">
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('watch.intro')}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={handleExport} className={buttonClass} disabled={watchlist.settlements.length === 0 && watchlist.searches.length === 0}>
+              <Download size={16} />
+              {t('export.button')}
+            </button>
+            <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+              <Upload size={16} />
+              {t('nav.ice-aktar')}
+            </button>
+            <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+        {message && (
+          <p className={`text-sm ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>{message.text}</p>
+        )}
+      </div>
+
+      <section className="flex flex-col gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <Star size={16} className="text-yellow-500" />
+          {t('watch.settlements', { count: watchlist.settlements.length })}
+        </h2>
+        {settlements.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('watch.empty')}
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900/50">
+                <tr>
+                  {COLUMN_KEYS.map(key => (
+                    <th key={key} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t(key)}</th>
+                  ))}
+                  <th scope="col" className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {settlements.map(item => {
+                  const check = checks.get(watchKey(item));
+                  const state = check?.state ?? 'yuklenmedi';
+                  return (
+                    <tr key={watchKey(item)} className={state === 'degisti' ? 'bg-orange-50 dark:bg-orange-900/10' : ''}>
+                      <td className="px-4 py-3 text-sm align-top">
+                        <div className="font-medium text-gray-900 dark:text-gray-100">{item.mahalle}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{item.il} / {item.ilce} / {item.belediye || '-'}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm align-top">
+                        <div className="flex flex-col items-start gap-1.5">
+                          {state === 'degisti' && check?.current ? (
+                            <span className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                              {durumBadge(item.durum)} → {durumBadge(check.current.durum)}
+                            </span>
+                          ) : (
+                            durumBadge(check?.current?.durum ?? item.durum)
+                          )}
+                          {state !== 'ayni' && (
+                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${STATE_CLASSES[state]}`}>
+                              {state === 'degisti' && <AlertCircle size={12} />}
+                              {t(`watch.state.${state}`)}
+                            </span>
+                          )}
+                          {(state === 'degisti' || state === 'baska-liste') && check?.current && (
+                            <button
+                              onClick={() => updateSettlement(item, { durum: check.current!.durum, dataset })}
+                              className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              <Check size={12} />
+                              {t(state === 'degisti' ? 'watch.acknowledge' : 'watch.rebase')}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 align-top min-w-[240px]">
+                        <textarea
+                          value={item.note}
+                          onChange={(e) => updateSettlement(item, { note: e.target.value })}
+                          placeholder={t('watch.notePlaceholder')}
+                          rows={2}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-4 py-3 align-top whitespace-nowrap text-right">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => onShowSettlement(item)}
+                            className="p-1.5 rounded text-gray-500 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            title={t('watch.show')}
+                          >
+                            <Search size={16} />
+                          </button>
+                          <button
+                            onClick={() => removeSettlement(item)}
+                            className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            title={t('row.watchRemove')}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <Bookmark size={16} className="text-blue-600" />
+          {t('watch.searches', { count: watchlist.searches.length })}
+        </h2>
+
+        <form onSubmit={handleSaveSearch} className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col gap-3">
+          <p className="text-sm text-gray-700 dark:text-gray-200">
+            {t('watch.currentSearch')} <span className="font-medium">{describeSearch(currentSearch, t)}</span>
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={searchName}
+              onChange={(e) => setSearchName(e.target.value)}
+              placeholder={t('watch.searchName')}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={searchNote}
+              onChange={(e) => setSearchNote(e.target.value)}
+              placeholder={t('watch.searchNote')}
+              className={`${inputClass} md:col-span-2`}
+            />
+          </div>
+          <div>
+            <button
+              type="submit"
+              disabled={!searchName.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('watch.saveSearch')}
+            </button>
+          </div>
+        </form>
+
+        {watchlist.searches.map(search => (
+          <div key={search.id} className="rounded-lg shadow border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 flex flex-col md:flex-row gap-3">
+            <div className="flex-grow min-w-0 flex flex-col gap-2">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{search.name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 break-words">{describeSearch(search, t)}</div>
+              </div>
+              <textarea
+                value={search.note}
+                onChange={(e) => updateSearch(search, { note: e.target.value })}
+                placeholder={t('watch.notePlaceholder')}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex md:flex-col gap-2 shrink-0">
+              <button onClick={() => onApplySearch(search)} className={buttonClass}>
+                <Search size={16} />
+                {t('watch.apply')}
+              </button>
+              <button onClick={() => removeSearch(search)} className={buttonClass}>
+                <Trash2 size={16} />
+                {t('watch.delete')}
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+};
+
+export default WatchlistPanel;
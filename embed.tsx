@@ -0,0 +1,21 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import EmbedWidget from './components/EmbedWidget';
+import I18nProvider from './components/I18nProvider';
+import { parseEmbedOptions } from './utils/embed';
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+const options = parseEmbedOptions(window.location.search);
+
+const root = ReactDOM.createRoot(rootElement);
+root.render(
+  <React.StrictMode>
+    <I18nProvider initialLocale={options.locale}>
+      <EmbedWidget options={options} />
+    </I18nProvider>
+  </React.StrictMode>
+);
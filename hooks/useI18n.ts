@@ -0,0 +1,34 @@
+import React, { createContext, useContext } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, LOCALE_TAGS, MessageKey, formatNumber, splitMessage, translate } from '../utils/i18n';
+
+export interface I18n {
+  locale: Locale;
+  // Switches the interface language and remembers it on this device
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  // Like t, but placeholders may be elements, e.g. a <strong> inside a sentence
+  tx: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void = () => {}): I18n => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  tx: (key, params) => {
+    const parts = splitMessage(translate(locale, key)).map((part, index) =>
+      index % 2 === 0 ? part : part in params ? params[part] : `{${part}}`
+    );
+    // Children passed as arguments need no keys
+    return React.createElement(React.Fragment, null, ...parts);
+  },
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+  formatDate: (date, options) => date.toLocaleString(LOCALE_TAGS[locale], options)
+});
+
+// Provided by I18nProvider; components rendered outside it fall back to Turkish
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = (): I18n => useContext(I18nContext);
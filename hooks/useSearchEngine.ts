@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { FacetKey, FacetValue, SearchQuery, SearchResult, SearchSuggestion, YerlesimYeri } from '../types';
+import { SearchIndex, createSearchIndex } from '../utils/searchIndex';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../workers/searchWorker';
+
+interface EngineState {
+  data: YerlesimYeri[];
+  queryKey: string;
+  rows: YerlesimYeri[];
+  facets: Record<FacetKey, FacetValue[]>;
+  suggestions: SearchSuggestion[];
+  corrections: string[];
+}
+
+const EMPTY_FACETS: Record<FacetKey, FacetValue[]> = { il: [], ilce: [], belediye: [], durum: [] };
+const EMPTY_RESULT: SearchResult = { ids: new Int32Array(0), facets: EMPTY_FACETS, suggestions: [], corrections: [] };
+
+/**
+ * Runs search, column filters and facet counting against an index in a Web Worker,
+ * so typing and dropdowns stay responsive with the full dataset.
+ * While a query is running the previous rows stay visible and `pending` is true.
+ */
+export const useSearchEngine = (data: YerlesimYeri[], query: SearchQuery) => {
+  const workerRef = useRef<Worker | null>(null);
+  // Main-thread index and the dataset it was built for
+  const localIndexRef = useRef<{ data: YerlesimYeri[]; index: SearchIndex } | null>(null);
+  const requestsRef = useRef(new Map<number, { data: YerlesimYeri[]; queryKey: string; query: SearchQuery }>());
+  const lastRequestIdRef = useRef(0);
+  const [state, setState] = useState<EngineState | null>(null);
+
+  const queryKey = JSON.stringify(query);
+
+  // Only the newest request is applied; answers to superseded queries are dropped
+  const applyResult = (requestId: number, result: SearchResult) => {
+    const request = requestsRef.current.get(requestId);
+    requestsRef.current.delete(requestId);
+    if (!request || requestId !== lastRequestIdRef.current) return;
+
+    setState({
+      data: request.data,
+      queryKey: request.queryKey,
+      rows: Array.from(result.ids, id => request.data[id]),
+      facets: result.facets,
+      suggestions: result.suggestions,
+      corrections: result.corrections
+    });
+  };
+
+  const localIndexFor = (data: YerlesimYeri[]): SearchIndex => {
+    if (!localIndexRef.current || localIndexRef.current.data !== data) {
+      localIndexRef.current = { data, index: createSearchIndex(data) };
+    }
+    return localIndexRef.current.index;
+  };
+
+  // A query the main-thread index can't answer shows an empty list rather than a spinner that never stops
+  const answerOnMainThread = (requestId: number) => {
+    const request = requestsRef.current.get(requestId);
+    if (!request) return;
+    let result = EMPTY_RESULT;
+    try {
+      result = localIndexFor(request.data).query(request.query);
+    } catch (err) {
+      console.error('Arama yapılamadı.', err);
+    }
+    applyResult(requestId, result);
+  };
+
+  // Start the worker; without worker support the index is built on the main thread instead
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/searchWorker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+      console.warn('Arama işçisi başlatılamadı, arama ana iş parçacığında yapılacak.', err);
+      return;
+    }
+
+    // The worker is given up and the newest query is answered on the main thread instead,
+    // so the list doesn't wait forever for an answer that won't come
+    const giveUpWorker = (reason: unknown) => {
+      console.warn('Arama işçisinde hata oluştu, arama ana iş parçacığında yapılacak.', reason);
+      worker.terminate();
+      workerRef.current = null;
+      answerOnMainThread(lastRequestIdRef.current);
+    };
+
+    worker.onmessage = (e: MessageEvent<SearchWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'result') {
+        applyResult(message.requestId, message.result);
+      } else {
+        giveUpWorker(message.message);
+      }
+    };
+    // The worker script failed to load or crashed, or an answer could not be read
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      giveUpWorker(e.message);
+    };
+    worker.onmessageerror = giveUpWorker;
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // (Re)build the worker's index whenever a new dataset is loaded; the main-thread index is built on first query
+  useEffect(() => {
+    if (workerRef.current) {
+      const message: SearchWorkerRequest = { type: 'load', data };
+      workerRef.current.postMessage(message);
+    }
+  }, [data]);
+
+  useEffect(() => {
+    const requestId = ++lastRequestIdRef.current;
+    requestsRef.current.set(requestId, { data, queryKey, query });
+
+    if (workerRef.current) {
+      const message: SearchWorkerRequest = { type: 'query', requestId, query };
+      workerRef.current.postMessage(message);
+    } else {
+      answerOnMainThread(requestId);
+    }
+  }, [data, queryKey]);
+
+  const current = state && state.data === data ? state : null;
+
+  return {
+    rows: current ? current.rows : [],
+    facets: current ? current.facets : EMPTY_FACETS,
+    suggestions: current ? current.suggestions : [],
+    corrections: current ? current.corrections : [],
+    pending: !current || current.queryKey !== queryKey
+  };
+};
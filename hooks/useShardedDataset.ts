@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DataQualityReport, ShardInfo, ShardManifest, ValidationPolicy, YerlesimYeri } from '../types';
+import { SHARD_BASE_URL, decodeShard } from '../utils/shardFormat';
+import { DataValidationError, ValidationResult, dataErrorMessage, validateDataset } from '../utils/validation';
+import { loadStoredShard, pruneStoredShards, saveStoredShard, shardStoreKey } from '../utils/datasetStore';
+import { translate } from '../utils/i18n';
+import { useI18n } from './useI18n';
+
+// Parallel downloads per batch; enough to hide latency without flooding a slow connection
+const MAX_PARALLEL = 6;
+
+/**
+ * Downloads a shard and keeps a copy on the device, so every il opened once stays available
+ * offline; without a connection the stored copy is used.
+ */
+const fetchShard = async (info: ShardInfo, baseUrl: string): Promise<ValidationResult> => {
+  const url = `${baseUrl}${info.file}`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    const stored = await loadStoredShard(shardStoreKey(url));
+    if (stored === null) throw err;
+    return validateDataset(decodeShard(stored, info.file));
+  }
+  if (!response.ok) {
+    throw new Error(`${url}: HTTP ${response.status}`);
+  }
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new DataValidationError('gecersiz-json', { file: info.file });
+  }
+  const result = validateDataset(decodeShard(raw, info.file));
+  await saveStoredShard(shardStoreKey(url), raw);
+  return result;
+};
+
+// Per-shard reports are merged with row numbers counted across the manifest order
+const mergeReports = (manifest: ShardManifest, loaded: Map<string, ValidationResult>): DataQualityReport => {
+  const report: DataQualityReport = { totalRows: 0, validRows: 0, quarantinedRows: [], issues: [] };
+  let offset = 0;
+  manifest.shards.forEach(info => {
+    const result = loaded.get(info.file);
+    if (result) {
+      report.totalRows += result.report.totalRows;
+      report.validRows += result.report.validRows;
+      result.report.quarantinedRows.forEach(row => report.quarantinedRows.push(offset + row));
+      result.report.issues.forEach(issue => report.issues.push({ ...issue, row: offset + issue.row }));
+    }
+    offset += info.rows;
+  });
+  return report;
+};
+
+/**
+ * Downloads the shards listed in `needed` (once each) from `baseUrl` and exposes the loaded rows
+ * in manifest order. Shards that were loaded for an earlier view stay in memory
+ * until the manifest changes; on the device they stay until a manifest no longer lists them.
+ */
+export const useShardedDataset = (
+  manifest: ShardManifest | null,
+  needed: ShardInfo[],
+  policy: ValidationPolicy,
+  baseUrl = SHARD_BASE_URL
+) => {
+  const { locale } = useI18n();
+  const loadedRef = useRef(new Map<string, ValidationResult>());
+  const requestedRef = useRef(new Set<string>());
+  const [revision, setRevision] = useState(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadedRef.current = new Map();
+    requestedRef.current = new Set();
+    setPendingCount(0);
+    setError(null);
+    setRevision(r => r + 1);
+    if (manifest) pruneStoredShards(baseUrl, manifest.shards.map(info => shardStoreKey(`${baseUrl}${info.file}`)));
+  }, [manifest]);
+
+  useEffect(() => {
+    if (!manifest) return;
+    const missing = needed.filter(info => !requestedRef.current.has(info.file));
+    if (missing.length === 0) return;
+
+    const loaded = loadedRef.current;
+    missing.forEach(info => requestedRef.current.add(info.file));
+    setPendingCount(count => count + missing.length);
+    setError(null);
+
+    const loadBatch = async () => {
+      const queue = [...missing];
+      const failures: string[] = [];
+      const worker = async () => {
+        for (let info = queue.shift(); info; info = queue.shift()) {
+          try {
+            loaded.set(info.file, await fetchShard(info, baseUrl));
+          } catch (err) {
+            // Failed shards can be requested again by the next view that needs them
+            requestedRef.current.delete(info.file);
+            // Invalid files are named; for network and server errors the il is enough
+            if (err instanceof DataValidationError) {
+              failures.push(dataErrorMessage(locale, err));
+            } else {
+              console.warn(`${info.file} indirilemedi.`, err);
+              failures.push(translate(locale, 'error.shardDownload', { il: info.il }));
+            }
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL, missing.length) }, worker));
+      // A new manifest was opened meanwhile; these shards belong to the old one
+      if (loadedRef.current !== loaded) return;
+
+      // Rows are published once per batch so the search index is rebuilt once, not per shard
+      setPendingCount(count => Math.max(0, count - missing.length));
+      setRevision(r => r + 1);
+      if (failures.length > 0) setError(failures[0]);
+    };
+
+    loadBatch();
+  }, [manifest, needed]);
+
+  const result = useMemo(() => {
+    if (!manifest) return { rows: [] as YerlesimYeri[], report: null, loadedCount: 0 };
+    const loaded = loadedRef.current;
+    const rows: YerlesimYeri[] = [];
+    manifest.shards.forEach(info => {
+      const shard = loaded.get(info.file);
+      if (shard) rows.push(...shard.data);
+    });
+    return { rows, report: mergeReports(manifest, loaded), loadedCount: loaded.size };
+  }, [manifest, revision]);
+
+  const rejected = policy === 'reddet' && result.report !== null && result.report.quarantinedRows.length > 0
+    ? translate(locale, 'error.data.reddedildi', { count: result.report.quarantinedRows.length })
+    : null;
+
+  return {
+    ...result,
+    // Every shard in `needed` has been loaded
+    ready: needed.every(info => loadedRef.current.has(info.file)),
+    pending: pendingCount > 0,
+    // Download failures; the loaded shards stay usable
+    error,
+    // Validation rejected the list under the 'reddet' policy
+    rejected
+  };
+};
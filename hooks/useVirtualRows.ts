@@ -0,0 +1,104 @@
+import { RefObject, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualRows {
+  // Rows [start, end) are rendered; the paddings stand in for the rest
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+// Rows rendered above and below the visible area, so fast scrolling doesn't show gaps
+const OVERSCAN = 10;
+
+/**
+ * Windowing for a long table inside a scroll container. Rendered rows carry a
+ * data-index attribute; their measured heights replace the estimate, so rows with an
+ * open detail panel (two <tr>s with the same index) keep the scroll position correct.
+ * The container is scrolled back to the top whenever resetKey changes (new results).
+ */
+export const useVirtualRows = (
+  containerRef: RefObject<HTMLElement>,
+  count: number,
+  estimatedHeight: number,
+  resetKey: unknown,
+  enabled = true
+): VirtualRows => {
+  const heightsRef = useRef(new Map<number, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const container = containerRef.current;
+    if (!container) return;
+
+    const update = () => {
+      setScrollTop(container.scrollTop);
+      setViewportHeight(container.clientHeight);
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      container.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [containerRef, enabled]);
+
+  useEffect(() => {
+    heightsRef.current = new Map();
+    setMeasureVersion(version => version + 1);
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [resetKey]);
+
+  // Measure after every render; only a changed height triggers another pass
+  useLayoutEffect(() => {
+    if (!enabled || !containerRef.current) return;
+    const measured = new Map<number, number>();
+    containerRef.current.querySelectorAll<HTMLElement>('tr[data-index]').forEach(row => {
+      const index = Number(row.dataset.index);
+      measured.set(index, (measured.get(index) || 0) + row.getBoundingClientRect().height);
+    });
+
+    let changed = false;
+    measured.forEach((height, index) => {
+      if (Math.abs((heightsRef.current.get(index) ?? -1) - height) > 0.5) {
+        heightsRef.current.set(index, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(version => version + 1);
+  });
+
+  // offsets[i] is the top of row i; offsets[count] the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heightsRef.current.get(i) ?? estimatedHeight);
+    }
+    return result;
+  }, [count, estimatedHeight, measureVersion]);
+
+  return useMemo(() => {
+    if (!enabled) return { start: 0, end: count, paddingTop: 0, paddingBottom: 0 };
+
+    // First row whose bottom is below the top of the viewport
+    let low = 0;
+    let high = count;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= scrollTop) low = mid + 1;
+      else high = mid;
+    }
+    const start = Math.max(0, low - OVERSCAN);
+
+    let end = low;
+    while (end < count && offsets[end] < scrollTop + viewportHeight) end++;
+    end = Math.min(count, end + OVERSCAN);
+
+    return { start, end, paddingTop: offsets[start], paddingBottom: offsets[count] - offsets[end] };
+  }, [enabled, count, offsets, scrollTop, viewportHeight]);
+};
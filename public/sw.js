@@ -0,0 +1,105 @@
+// Service worker: keeps the app shell available offline.
+// data.json and the shard manifest are deliberately not cached here; the app stores the validated
+// entry point in IndexedDB and compares versions itself so updates can be announced to the user.
+// The same goes for the dataset registry and the lists it points to, which the app requests with
+// cache: 'no-cache' wherever they are hosted.
+// Shard files carry a content hash in their name, so caching them like static assets is safe.
+const SHELL_CACHE = 'kirsal-alan-shell-v2';
+const SHELL_URLS = ['/', '/index.html', '/embed.html', '/manifest.webmanifest', '/icon.svg'];
+// Hashed bundles of the build, listed by vite.config.ts; bundles of later builds are cached when
+// the updated page first loads them
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+// Pages other than the app itself; every other navigation is answered with index.html
+const OTHER_PAGES = ['/embed.html'];
+const BYPASS_PATHS = ['/data.json', '/veri/manifest.json', PRECACHE_MANIFEST];
+// Scripts and styles loaded from CDNs by index.html
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+// The Tailwind script and the modules the import map of index.html resolves to
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://aistudiocdn.com/react@^19.2.0',
+  'https://aistudiocdn.com/react@^19.2.0/jsx-runtime',
+  'https://aistudiocdn.com/react-dom@^19.2.0/client',
+  'https://aistudiocdn.com/lucide-react@^0.554.0',
+  'https://aistudiocdn.com/turkey-map-react@^2.0.5/lib/data'
+];
+
+// The development server has no manifest and answers with index.html instead
+const buildAssets = async () => {
+  try {
+    const response = await fetch(PRECACHE_MANIFEST, { cache: 'no-cache' });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return [];
+  }
+};
+
+// Fetched with CORS so the cached copies can answer module requests; a CDN that can't be reached
+// doesn't fail the install, the assets are then cached when the page first loads them
+const cacheCdnAssets = cache =>
+  Promise.all(CDN_URLS.map(url =>
+    fetch(url, { mode: 'cors' })
+      .then(response => (response.ok ? cache.put(url, response) : undefined))
+      .catch(() => undefined)
+  ));
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([caches.open(SHELL_CACHE), buildAssets()])
+      .then(([cache, assets]) => Promise.all([cache.addAll([...SHELL_URLS, ...assets]), cacheCdnAssets(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Serves from cache immediately and refreshes the cached copy in the background
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Pages always try the network first so a new build is picked up when online
+const networkFirstPage = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const { pathname } = new URL(request.url);
+  const page = OTHER_PAGES.includes(pathname) ? pathname : '/index.html';
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(page, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(page)) || (page === '/index.html' && (await cache.match('/'))) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && BYPASS_PATHS.includes(url.pathname)) return;
+  if (request.cache === 'no-cache') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
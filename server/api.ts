@@ -0,0 +1,153 @@
+import { FacetKey, YerlesimYeri } from '../types';
+import { BATCH_STATUS_LABELS } from '../utils/batchMatch';
+import { DEFAULT_DATA_PATHS, LoadedDataset, ReadFile, loadFirstDatasetFile } from '../utils/datasetFile';
+import { SanitizedFilters, sanitizeFilters } from '../utils/filters';
+import { DEFAULT_LOCALE } from '../utils/i18n';
+import { FACET_KEYS, createSearchIndex } from '../utils/searchIndex';
+import { QuerySyntaxError, parseSearchQuery, querySyntaxMessage } from '../utils/searchQuery';
+import { EMPTY_LOOKUP, findSettlements, lookupStatus, suggestSettlements } from '../utils/settlementLookup';
+import { DEFAULT_PAGE_SIZE, parseUrlState } from '../utils/urlState';
+
+/**
+ * JSON API over the same search index as the web app. Query strings use the web app's
+ * link format (q, il, ilce, belediye, mahalle, durum, sayfa, sirala), so a list link and the
+ * matching /api/yerlesimler call return the same rows in the same order.
+ * Filter values the list doesn't have are ignored, as in the web app, and named in the
+ * X-Yoksayilan-Filtreler header (and yoksayilanFiltreler of /api/yerlesimler).
+ * A q with incomplete search syntax (e.g. an unclosed quote) is answered with 400 and
+ * { hata, kod, konum }: the QueryErrorCode and the 1-based character where the problem starts.
+ * This module has no Node dependencies; server/kirsal-alan-api.mjs runs it on node:http.
+ */
+
+const MAX_PAGE_SIZE = 500;
+
+export interface ApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export type ApiHandler = (method: string, url: string) => ApiResponse;
+
+const DROPPED_FILTERS_HEADER = 'X-Yoksayilan-Filtreler';
+
+const json = (status: number, payload: unknown, headers: Record<string, string> = {}): ApiResponse => ({
+  status,
+  headers: {
+    'Content-Type': 'application/json; charset=utf-8',
+    // Read-only public data; other internal tools call this from their own origins
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Expose-Headers': DROPPED_FILTERS_HEADER,
+    ...headers
+  },
+  body: JSON.stringify(payload)
+});
+
+// Only the parameter names go in the header, which can't carry Turkish characters
+const droppedHeaders = (dropped: SanitizedFilters['dropped']): Record<string, string> =>
+  dropped.length > 0 ? { [DROPPED_FILTERS_HEADER]: dropped.map(({ key }) => key).join(',') } : {};
+
+const error = (status: number, message: string) => json(status, { hata: message });
+
+// The web app searches a malformed query as plain text; API callers are told instead
+const querySyntaxError = (searchTerm: string): ApiResponse | null => {
+  try {
+    parseSearchQuery(searchTerm);
+    return null;
+  } catch (err) {
+    if (!(err instanceof QuerySyntaxError)) throw err;
+    return json(400, { hata: querySyntaxMessage(DEFAULT_LOCALE, err), kod: err.code, konum: err.position + 1 });
+  }
+};
+
+const parsePageSize = (value: string | null): number | null => {
+  if (value === null || value === '') return DEFAULT_PAGE_SIZE;
+  const size = Number(value);
+  return Number.isInteger(size) && size >= 1 && size <= MAX_PAGE_SIZE ? size : null;
+};
+
+export const createApiHandler = (data: YerlesimYeri[], quarantined = 0): ApiHandler => {
+  const index = createSearchIndex(data);
+
+  const routes: Record<string, (params: URLSearchParams, search: string) => ApiResponse> = {
+    '/api': () => json(200, {
+      kayitSayisi: data.length,
+      hataliKayit: quarantined,
+      uclar: ['/api/yerlesimler', '/api/secenekler', '/api/yerlesim']
+    }),
+
+    // Filtered, paginated list: GET /api/yerlesimler?q=&il=&ilce=&belediye=&mahalle=&durum=&sayfa=&sirala=&boyut=
+    '/api/yerlesimler': (params, search) => {
+      const pageSize = parsePageSize(params.get('boyut'));
+      if (pageSize === null) return error(400, `boyut 1 ile ${MAX_PAGE_SIZE} arasında bir tam sayı olmalıdır.`);
+
+      const { searchTerm, filters: requested, page, sort } = parseUrlState(search);
+      const syntaxError = querySyntaxError(searchTerm);
+      if (syntaxError) return syntaxError;
+      const { filters, dropped } = sanitizeFilters(requested, data);
+      const { ids } = index.query({ searchTerm, filters, sort });
+      const start = (page - 1) * pageSize;
+
+      return json(200, {
+        toplam: ids.length,
+        sayfa: page,
+        boyut: pageSize,
+        sayfaSayisi: Math.ceil(ids.length / pageSize),
+        kayitlar: Array.from(ids.subarray(start, start + pageSize), id => data[id]),
+        yoksayilanFiltreler: dropped.map(({ key, value }) => ({ alan: key, deger: value }))
+      }, droppedHeaders(dropped));
+    },
+
+    // Dropdown options with counts, each column counted with the other filters applied
+    '/api/secenekler': (params, search) => {
+      const { searchTerm, filters: requested } = parseUrlState(search);
+      const syntaxError = querySyntaxError(searchTerm);
+      if (syntaxError) return syntaxError;
+      const { filters, dropped } = sanitizeFilters(requested, data);
+      const { facets } = index.query({ searchTerm, filters });
+      const column = params.get('alan');
+      if (column === null) return json(200, facets, droppedHeaders(dropped));
+      if (!FACET_KEYS.includes(column as FacetKey)) {
+        return error(400, `alan şunlardan biri olmalıdır: ${FACET_KEYS.join(', ')}.`);
+      }
+      return json(200, facets[column as FacetKey], droppedHeaders(dropped));
+    },
+
+    // Single settlement: GET /api/yerlesim?il=&ilce=&belediye=&mahalle=
+    '/api/yerlesim': params => {
+      const query = { ...EMPTY_LOOKUP };
+      (['il', 'ilce', 'belediye', 'mahalle'] as const).forEach(key => {
+        query[key] = params.get(key) || '';
+      });
+      if (!query.mahalle) return error(400, 'mahalle parametresi gereklidir.');
+
+      const records = findSettlements(data, query);
+      const status = lookupStatus(records);
+      return json(status === 'bulunamadi' ? 404 : 200, {
+        sonuc: status,
+        sonucAciklamasi: BATCH_STATUS_LABELS[status],
+        kayitlar: records,
+        ...(status === 'bulunamadi' ? { oneriler: suggestSettlements(data, query) } : {})
+      });
+    }
+  };
+
+  return (method, url) => {
+    // Valid request targets such as "//" are not parseable as a path of this host
+    let target: URL;
+    try {
+      target = new URL(url, 'http://localhost');
+    } catch {
+      return error(400, 'Geçersiz adres.');
+    }
+    const { pathname, search, searchParams } = target;
+    const route = routes[pathname.replace(/\/+$/, '') || '/'];
+    if (!route) return error(404, 'Bilinmeyen adres.');
+    if (method !== 'GET' && method !== 'HEAD') return error(405, 'Yalnızca GET istekleri desteklenir.');
+    return route(searchParams, search);
+  };
+};
+
+// Loads the data file for the server; null when none of the paths exists
+export const loadApiData = (path: string, readFile: ReadFile): LoadedDataset | null =>
+  loadFirstDatasetFile(path ? [path] : DEFAULT_DATA_PATHS, readFile);
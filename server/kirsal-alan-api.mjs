@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+// Self-hosted HTTP API for settlement lookups. The request handling lives in server/api.ts;
+// build it first with `npm run build:node`.
+//
+//   node server/kirsal-alan-api.mjs [--port 8080] [--veri public/data.json]
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { createApiHandler, loadApiData } from '../dist-node/api.js';
+
+const option = name => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const port = Number(option('--port') || process.env.PORT || 8080);
+const loaded = loadApiData(option('--veri') || '', path => readFileSync(path, 'utf8'));
+
+if (!loaded) {
+  console.error('Veri dosyası bulunamadı. --veri ile data.json ya da veri/manifest.json yolunu verin.');
+  process.exit(66);
+}
+
+const handle = createApiHandler(loaded.data, loaded.quarantined);
+
+createServer((req, res) => {
+  // A request that breaks the handler is answered on its own instead of stopping the server
+  let response;
+  try {
+    response = handle(req.method || 'GET', req.url || '/');
+  } catch (err) {
+    console.error(`${req.method} ${req.url} isteği işlenemedi.`, err);
+    response = {
+      status: 500,
+      headers: { 'Content-Type': 'application/json; charset=utf-8', 'Access-Control-Allow-Origin': '*' },
+      body: JSON.stringify({ hata: 'Sunucu hatası.' })
+    };
+  }
+  res.writeHead(response.status, response.headers);
+  res.end(req.method === 'HEAD' ? undefined : response.body);
+}).listen(port, () => {
+  console.log(`${loaded.path} yüklendi (${loaded.data.length} kayıt). API: http://localhost:${port}/api`);
+});
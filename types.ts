@@ -4,10 +4,320 @@ export interface YerlesimYeri {
   belediye: string;
   mahalle: string;
   durum: string;
+  // Provenance, optional: lists published before these were added only have the fields above
+  // Stable settlement code (TÜİK/UAVT)
+  kod?: string;
+  // Population figure the status was determined from
+  nufus?: number;
+  // Reference date of the population figure or the dataset version, e.g. "31.12.2022"
+  referansTarihi?: string;
+  // Legal basis for the status, e.g. the regulation article
+  dayanak?: string;
 }
 
+// The five fields every record has; the optional details are kept apart from them
+export type SettlementField = 'il' | 'ilce' | 'belediye' | 'mahalle' | 'durum';
+export type SettlementDetailField = 'kod' | 'nufus' | 'referansTarihi' | 'dayanak';
+
 export interface PaginationProps {
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
+  // The rows-per-page selector is only shown when a change handler is given
+  pageSize?: number;
+  pageSizeOptions?: number[];
+  onPageSizeChange?: (size: number) => void;
+}
+
+// Interface language; data values are never translated
+export type Locale = 'tr' | 'en';
+
+// How the list shows its results: one page at a time or all rows in a scrolling table
+export type ListMode = 'sayfali' | 'kaydirmali';
+
+export interface Filters {
+  il: string;
+  ilce: string;
+  belediye: string;
+  mahalle: string;
+  durum: string;
+}
+
+export type BatchStatus = 'kirsal' | 'kirsal-degil' | 'bulunamadi' | 'belirsiz';
+
+export interface BatchQuery {
+  line: number;
+  il: string;
+  ilce: string;
+  mahalle: string;
+}
+
+export interface BatchResult {
+  query: BatchQuery;
+  status: BatchStatus;
+  // Records that match the query exactly (after normalization)
+  matches: YerlesimYeri[];
+  // Closest records when there is no exact match
+  candidates: YerlesimYeri[];
+}
+
+export type AppView = 'liste' | 'istatistik' | 'harita' | 'toplu' | 'karsilastir' | 'kalite' | 'ice-aktar' | 'gezin' | 'takip';
+
+export type FacetKey = 'il' | 'ilce' | 'belediye' | 'durum';
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: SettlementField;
+  direction: SortDirection;
+}
+
+export interface SearchQuery {
+  searchTerm: string;
+  filters: Filters;
+  // Primary key first; without keys rows stay in relevance (or file) order
+  sort?: SortKey[];
+}
+
+// One term of the advanced search syntax, e.g. -mahalle:merkez or "hacılı mah"
+export interface QueryTerm {
+  // Null when the term may match any column
+  field: SettlementField | null;
+  text: string;
+  negated: boolean;
+}
+
+// Parsed advanced query: rows match when every term of at least one clause matches (terms joined by OR)
+export interface ParsedQuery {
+  clauses: QueryTerm[][];
+}
+
+export type QueryErrorCode = 'tirnak-kapanmadi' | 'bos-deger' | 'bilinmeyen-alan' | 'eksik-ifade';
+
+// A place proposed under the search box; choosing it filters the list down to it
+export interface SearchSuggestion {
+  // 0 = il ... 3 = mahalle, as in the settlement browser
+  depth: number;
+  // Names from the il down to the suggested value
+  values: string[];
+  // Rows of the loaded list at that place
+  count: number;
+}
+
+export interface SearchResult {
+  // Row indexes into the loaded dataset, closest matches first
+  ids: Int32Array;
+  // Dropdown options per column, counted with every other active filter applied
+  facets: Record<FacetKey, FacetValue[]>;
+  // Places whose name starts with the plain search term, by level
+  suggestions: SearchSuggestion[];
+  // Closest spellings when the plain search term matches no row at all
+  corrections: string[];
+}
+
+export type DataIssueType =
+  | 'gecersiz-kayit'
+  | 'eksik-alan'
+  | 'gecersiz-tip'
+  | 'bilinmeyen-durum'
+  | 'mukerrer'
+  | 'bosluk'
+  | 'harf-buyuklugu';
+
+export type DataIssueSeverity = 'hata' | 'uyari';
+
+// Explanation of an issue, shown as issue.message.<code> in the interface language
+export type DataIssueCode =
+  | 'kayit-nesne-degil'
+  | 'alan-eksik'
+  | 'sayi-girilmis'
+  | 'metin-degil'
+  | 'fazla-bosluk'
+  | 'buyuk-harf-degil'
+  | 'metin-girilmis'
+  | 'tam-sayi-degil'
+  | 'detay-metin-degil'
+  | 'bilinmeyen-durum'
+  | 'mukerrer-farkli-durum'
+  | 'mukerrer';
+
+export interface DataIssue {
+  // 1-based position of the record in data.json (the spreadsheet row for imported lists)
+  row: number;
+  type: DataIssueType;
+  severity: DataIssueSeverity;
+  field?: keyof YerlesimYeri;
+  value?: string;
+  code: DataIssueCode;
+  // Placeholders of the message besides {field}, which is filled with the field's label
+  params?: Record<string, string>;
+}
+
+// Why a list file can't be used, shown as error.data.<code>
+export type DataErrorCode = 'bulunamadi' | 'liste-degil' | 'gecersiz-json' | 'parca-bicimi' | 'parca-uzunluk' | 'reddedildi' | 'gecerli-kayit-yok';
+
+export interface DataQualityReport {
+  totalRows: number;
+  validRows: number;
+  // Rows with at least one error; they are not rendered in quarantine mode
+  quarantinedRows: number[];
+  issues: DataIssue[];
+}
+
+// What to do when data.json contains invalid rows
+export type ValidationPolicy = 'karantina' | 'reddet';
+
+export type DiffKind = 'kirsala-gecti' | 'kirsaldan-cikti' | 'eklendi' | 'kaldirildi' | 'yeniden-adlandirildi';
+
+export interface DiffEntry {
+  kind: DiffKind;
+  // Record in the older list (missing for added settlements)
+  before?: YerlesimYeri;
+  // Record in the newer list (missing for removed settlements)
+  after?: YerlesimYeri;
+  // Set on renames whose status changed as well, so they also count as a status change
+  statusChange?: 'kirsala-gecti' | 'kirsaldan-cikti';
+}
+
+export type StatsLevel = 'il' | 'ilce' | 'belediye';
+
+// One place in the il → ilçe → belediye → mahalle browser
+export interface SettlementTreeNode {
+  // Path of names from the il down, joined with "|"
+  id: string;
+  // 0 = il ... 3 = mahalle
+  depth: number;
+  // Names from the il down to this node; values[depth] is the node's own name
+  values: string[];
+  rows: YerlesimYeri[];
+  kirsal: number;
+  kirsalDegil: number;
+}
+
+export interface StatsRow {
+  il: string;
+  ilce: string;
+  belediye: string;
+  kirsal: number;
+  kirsalDegil: number;
+  total: number;
+  // Share of Kırsal Alan settlements, 0..1
+  ratio: number;
+}
+
+// One list of the dataset registry, e.g. the IPARD III list of a reference year or another programme's list
+export interface DatasetInfo {
+  // Short name used in links (?veri=ipard3-2022)
+  id: string;
+  title: string;
+  // Shown under the app title instead of the built-in IPARD III text
+  description: string;
+  // Reference date of the list, e.g. "31.12.2022"
+  referenceDate: string;
+  // data.json or shard manifest of the list
+  url: string;
+}
+
+// Registry of the lists the app can switch between; the first one is opened by default
+export interface DatasetRegistry {
+  format: 'kirsal-alan-veri-setleri';
+  version: 1;
+  datasets: DatasetInfo[];
+}
+
+// Sharded dataset: a small manifest plus one dictionary-encoded file per il
+export interface ShardInfo {
+  il: string;
+  // File name relative to the manifest
+  file: string;
+  rows: number;
+  kirsal: number;
+}
+
+export interface ShardManifest {
+  format: 'kirsal-alan-parcali';
+  version: 1;
+  // Reference date of the list, e.g. "31.12.2022"
+  datasetVersion: string;
+  totalRows: number;
+  shards: ShardInfo[];
 }
+
+// Columnar shard: ilçe, belediye and durum columns hold indexes into the string tables
+export interface DatasetShard {
+  il: string;
+  ilceler: string[];
+  belediyeler: string[];
+  durumlar: string[];
+  ilce: number[];
+  belediye: number[];
+  durum: number[];
+  mahalle: string[];
+  // Detail columns, only written when a row of the il has the field; null or -1 marks a missing value
+  kod?: (string | null)[];
+  nufus?: (number | null)[];
+  referansTarihleri?: string[];
+  referansTarihi?: number[];
+  dayanaklar?: string[];
+  dayanak?: number[];
+}
+
+// A starred settlement; il/ilçe/belediye/mahalle identify it across list versions
+export interface WatchedSettlement {
+  il: string;
+  ilce: string;
+  belediye: string;
+  mahalle: string;
+  // Status when the settlement was starred or its last change was acknowledged
+  durum: string;
+  // Dataset registry id of the list that status was read from; empty for the default list
+  dataset: string;
+  note: string;
+  addedAt: string;
+}
+
+// A named search term, filter and sort combination
+export interface SavedSearch {
+  id: string;
+  name: string;
+  searchTerm: string;
+  filters: Filters;
+  sort: SortKey[];
+  note: string;
+  createdAt: string;
+}
+
+export interface Watchlist {
+  settlements: WatchedSettlement[];
+  searches: SavedSearch[];
+}
+
+// Shareable JSON file of a watchlist
+export interface WatchlistFile extends Watchlist {
+  format: 'kirsal-alan-takip';
+  version: 1;
+  exportedAt: string;
+}
+
+// Why a file could not be read as a watchlist at all
+export type WatchlistErrorCode = 'gecersiz-json' | 'takip-listesi-degil' | 'surum-desteklenmiyor';
+
+// Watched settlement compared with the loaded list: same status, changed, missing,
+// unknown because its il's shard is not loaded yet, or watched on another list of the registry
+export type WatchState = 'ayni' | 'degisti' | 'bulunamadi' | 'yuklenmedi' | 'baska-liste';
+
+export interface WatchCheck {
+  state: WatchState;
+  // Matching record of the loaded list
+  current?: YerlesimYeri;
+}
+
+// Content of the print layout: a status certificate for one row or a report of the filtered list
+export type PrintJob =
+  | { kind: 'belge'; item: YerlesimYeri }
+  | { kind: 'rapor'; rows: YerlesimYeri[]; searchTerm: string; filters: Filters };
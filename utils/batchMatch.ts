@@ -0,0 +1,124 @@
+import { BatchQuery, BatchResult, BatchStatus, YerlesimYeri } from '../types';
+import { parseCsvRows } from './csv';
+import { normalizeSettlementName, prepareQuery, scoreMatch } from './fuzzyMatch';
+
+const MAX_CANDIDATES = 5;
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  'kirsal': 'Kırsal Alan',
+  'kirsal-degil': 'Kırsal Alan Değil',
+  'bulunamadi': 'Bulunamadı',
+  'belirsiz': 'Belirsiz'
+};
+
+const HEADER_ALIASES: Record<keyof Omit<BatchQuery, 'line'>, string[]> = {
+  il: ['il', 'sehir', 'province'],
+  ilce: ['ilce', 'district'],
+  // Headers are compared after normalizeSettlementName, so "Mahalle/Köy" arrives as "mahalle"
+  mahalle: ['mahalle', 'koy', 'yerlesim yeri', 'neighbourhood']
+};
+
+/**
+ * Parses pasted text or an uploaded CSV into il/ilçe/mahalle queries.
+ * A header row is recognised by its column names; without one the columns are read as il, ilçe, mahalle.
+ * A single value per line is treated as a mahalle name.
+ * Line numbers count every line of the text, blank ones included, so they match the pasted text or file.
+ */
+export const parseBatchInput = (text: string): BatchQuery[] => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  let columns = { il: 0, ilce: 1, mahalle: 2 };
+  let startIndex = 0;
+
+  const header = rows[0].cells.map(normalizeSettlementName);
+  const findColumn = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+  const ilColumn = findColumn(HEADER_ALIASES.il);
+  const mahalleColumn = findColumn(HEADER_ALIASES.mahalle);
+
+  if (ilColumn !== -1 && mahalleColumn !== -1) {
+    columns = { il: ilColumn, ilce: findColumn(HEADER_ALIASES.ilce), mahalle: mahalleColumn };
+    startIndex = 1;
+  }
+
+  return rows.slice(startIndex).map(({ line, cells: row }) => {
+    const cell = (column: number) => (column >= 0 ? row[column] || '' : '');
+
+    if (startIndex === 0 && row.length === 1) {
+      return { line, il: '', ilce: '', mahalle: row[0] };
+    }
+
+    return {
+      line,
+      il: cell(columns.il),
+      ilce: cell(columns.ilce),
+      mahalle: cell(columns.mahalle)
+    };
+  });
+};
+
+interface IndexedRecord {
+  item: YerlesimYeri;
+  il: string;
+  ilce: string;
+  mahalle: string;
+}
+
+const statusOf = (records: YerlesimYeri[]): BatchStatus => {
+  const statuses = new Set(records.map(item => item.durum));
+  if (statuses.size !== 1) return 'belirsiz';
+  return records[0].durum === 'Kırsal Alan' ? 'kirsal' : 'kirsal-degil';
+};
+
+/**
+ * Matches each query against the loaded list.
+ * Several exact matches are only reported as ambiguous when their statuses disagree.
+ */
+export const matchBatch = (queries: BatchQuery[], data: YerlesimYeri[]): BatchResult[] => {
+  const indexed: IndexedRecord[] = data.map(item => ({
+    item,
+    il: normalizeSettlementName(item.il),
+    ilce: normalizeSettlementName(item.ilce),
+    mahalle: normalizeSettlementName(item.mahalle)
+  }));
+
+  return queries.map(query => {
+    const il = normalizeSettlementName(query.il);
+    const ilce = normalizeSettlementName(query.ilce);
+    const mahalle = prepareQuery(query.mahalle);
+
+    if (!mahalle.text) {
+      return { query, status: 'bulunamadi', matches: [], candidates: [] };
+    }
+
+    // Records within the given il/ilçe; empty values don't restrict
+    const scope = indexed.filter(record =>
+      (!il || record.il === il) && (!ilce || record.ilce === ilce)
+    );
+
+    const matches = scope.filter(record => record.mahalle === mahalle.text).map(record => record.item);
+
+    if (matches.length > 0) {
+      return { query, status: statusOf(matches), matches, candidates: [] };
+    }
+
+    // Closest names in the same il/ilçe first, then anywhere in the list
+    const closest = (records: IndexedRecord[]) =>
+      records
+        .map(record => ({ record, score: scoreMatch(mahalle, record.mahalle) }))
+        .filter((entry): entry is { record: IndexedRecord; score: number } => entry.score !== null)
+        .sort((a, b) => a.score - b.score);
+
+    let candidates = closest(scope);
+    if (candidates.length === 0 && scope.length !== indexed.length) {
+      candidates = closest(indexed);
+    }
+
+    return {
+      query,
+      status: 'bulunamadi',
+      matches: [],
+      candidates: candidates.slice(0, MAX_CANDIDATES).map(({ record }) => record.item)
+    };
+  });
+};
@@ -0,0 +1,111 @@
+export const CSV_BOM = '\uFEFF';
+export const CSV_MIME = 'text/csv;charset=utf-8';
+
+// Semicolon is the list separator Excel expects on Turkish-locale systems
+export const CSV_DELIMITER = ';';
+
+const escapeCsvValue = (value: string | number | null | undefined, delimiter: string): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Serializes rows to CSV text prefixed with a UTF-8 BOM so Excel detects the encoding
+ * and shows Turkish characters (ç, ğ, ı, İ, ö, ş, ü) correctly.
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][], delimiter: string = CSV_DELIMITER): string => {
+  const body = rows
+    .map(row => row.map(value => escapeCsvValue(value, delimiter)).join(delimiter))
+    .join('\r\n');
+  return CSV_BOM + body + '\r\n';
+};
+
+const DELIMITER_CANDIDATES = [';', '\t', ',', '/'];
+
+// Picks the candidate delimiter that appears most often (outside quotes) in the first non-empty line
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+
+  let best = CSV_DELIMITER;
+  let bestCount = 0;
+  DELIMITER_CANDIDATES.forEach(candidate => {
+    const count = unquoted.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// A parsed CSV record with the 1-based line of the text it starts on
+export interface CsvRow {
+  line: number;
+  // Last line of the row; later than line when a quoted cell contains line breaks
+  endLine: number;
+  cells: string[];
+}
+
+/**
+ * Parses CSV text (RFC 4180 quoting) into rows of trimmed cells. A leading BOM is ignored,
+ * the delimiter is detected automatically unless given, and empty lines are skipped.
+ * Each row keeps the line it starts on, so messages can point at the original text.
+ */
+export const parseCsvRows = (text: string, delimiter?: string): CsvRow[] => {
+  const source = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+  const sep = delimiter || detectDelimiter(source);
+
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const pushRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push({ line: rowLine, endLine: line, cells: row });
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // Line breaks inside quoted cells still count for the following rows
+        if (char === '\n' || (char === '\r' && source[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      pushRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  pushRow();
+
+  return rows;
+};
+
+export const parseCsv = (text: string, delimiter?: string): string[][] =>
+  parseCsvRows(text, delimiter).map(row => row.cells);
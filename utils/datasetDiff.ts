@@ -0,0 +1,106 @@
+import { DiffEntry, DiffKind, YerlesimYeri } from '../types';
+import { KIRSAL_ALAN } from './filters';
+import { levenshtein, normalizeSettlementName } from './fuzzyMatch';
+
+// Kinds in the order the comparison lists its filters
+export const DIFF_KINDS: DiffKind[] = ['kirsala-gecti', 'kirsaldan-cikti', 'eklendi', 'kaldirildi', 'yeniden-adlandirildi'];
+
+// Mahalle names this close (after normalization) within the same il/ilçe are treated as renames
+const MAX_RENAME_DISTANCE = 2;
+
+// Kinds an entry is listed under: its own, plus the status change of a rename
+export const entryKinds = (entry: DiffEntry): DiffKind[] =>
+  entry.statusChange ? [entry.kind, entry.statusChange] : [entry.kind];
+
+// Also identifies watched settlements, so they survive spelling fixes in a new list
+export const settlementKey = (item: Pick<YerlesimYeri, 'il' | 'ilce' | 'belediye' | 'mahalle'>): string =>
+  [item.il, item.ilce, item.belediye, item.mahalle].map(normalizeSettlementName).join('|');
+
+const districtKey = (item: YerlesimYeri): string =>
+  [item.il, item.ilce].map(normalizeSettlementName).join('|');
+
+const statusChange = (before: YerlesimYeri, after: YerlesimYeri): DiffEntry['statusChange'] | null => {
+  if (before.durum === after.durum) return null;
+  return after.durum === KIRSAL_ALAN ? 'kirsala-gecti' : 'kirsaldan-cikti';
+};
+
+/**
+ * Compares two versions of the list by normalized il/ilçe/belediye/mahalle keys.
+ * Unmatched rows in the same il/ilçe whose names are within a small edit distance
+ * (or identical under a different belediye) are paired as renames instead of remove + add;
+ * a rename that also flips the status carries that change in `statusChange`.
+ */
+export const diffDatasets = (before: YerlesimYeri[], after: YerlesimYeri[]): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  const afterByKey = new Map<string, YerlesimYeri>();
+  after.forEach(item => {
+    const key = settlementKey(item);
+    if (!afterByKey.has(key)) afterByKey.set(key, item);
+  });
+
+  const matchedKeys = new Set<string>();
+  const removed: YerlesimYeri[] = [];
+
+  before.forEach(item => {
+    const key = settlementKey(item);
+    const counterpart = afterByKey.get(key);
+    if (!counterpart || matchedKeys.has(key)) {
+      removed.push(item);
+      return;
+    }
+    matchedKeys.add(key);
+    const kind = statusChange(item, counterpart);
+    if (kind) entries.push({ kind, before: item, after: counterpart });
+  });
+
+  const added = after.filter(item => !matchedKeys.has(settlementKey(item)));
+
+  // Pair renames per il/ilçe: removed rows in file order, each taking the closest added name still unpaired
+  const addedByDistrict = new Map<string, YerlesimYeri[]>();
+  added.forEach(item => {
+    const key = districtKey(item);
+    const list = addedByDistrict.get(key);
+    if (list) list.push(item);
+    else addedByDistrict.set(key, [item]);
+  });
+
+  const pairedAdded = new Set<YerlesimYeri>();
+
+  removed.forEach(item => {
+    const candidates = addedByDistrict.get(districtKey(item)) || [];
+    const name = normalizeSettlementName(item.mahalle);
+
+    let best: YerlesimYeri | null = null;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+      if (pairedAdded.has(candidate)) continue;
+      const distance = levenshtein(name, normalizeSettlementName(candidate.mahalle));
+      if (distance <= MAX_RENAME_DISTANCE && distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    if (best) {
+      pairedAdded.add(best);
+      entries.push({ kind: 'yeniden-adlandirildi', before: item, after: best, statusChange: statusChange(item, best) || undefined });
+    } else {
+      entries.push({ kind: 'kaldirildi', before: item });
+    }
+  });
+
+  added.forEach(item => {
+    if (!pairedAdded.has(item)) entries.push({ kind: 'eklendi', after: item });
+  });
+
+  // Group by place for a readable table
+  return entries.sort((a, b) => {
+    const x = (a.after || a.before) as YerlesimYeri;
+    const y = (b.after || b.before) as YerlesimYeri;
+    return (
+      x.il.localeCompare(y.il, 'tr') ||
+      x.ilce.localeCompare(y.ilce, 'tr') ||
+      x.mahalle.localeCompare(y.mahalle, 'tr')
+    );
+  });
+};
@@ -0,0 +1,60 @@
+import { YerlesimYeri } from '../types';
+import { decodeShard, isShardManifest } from './shardFormat';
+import { DataValidationError, validateDataset } from './validation';
+
+// Locations tried by the Node tools when no data file is given
+export const DEFAULT_DATA_PATHS = ['public/data.json', 'public/veri/manifest.json'];
+
+// Throws when the file does not exist
+export type ReadFile = (path: string) => string;
+
+export interface LoadedDataset {
+  path: string;
+  data: YerlesimYeri[];
+  // Rows left out because they failed validation
+  quarantined: number;
+}
+
+const directoryOf = (path: string): string => {
+  const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+  return index === -1 ? '' : path.slice(0, index + 1);
+};
+
+/**
+ * Reads data.json or a shard manifest with all its shards and validates the rows.
+ * Rows that fail validation are left out, as in the web app's quarantine mode.
+ */
+export const loadDatasetFile = (path: string, readFile: ReadFile): LoadedDataset => {
+  const parse = (file: string): unknown => {
+    try {
+      return JSON.parse(readFile(file));
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new DataValidationError('gecersiz-json', { file });
+      throw err;
+    }
+  };
+
+  const raw = parse(path);
+  const rows = isShardManifest(raw)
+    ? raw.shards.flatMap(info => decodeShard(parse(`${directoryOf(path)}${info.file}`), info.file))
+    : raw;
+
+  const { data, report } = validateDataset(rows);
+  return { path, data, quarantined: report.quarantinedRows.length };
+};
+
+/**
+ * Loads the first of the given paths that exists. Returns null when none does;
+ * a file that exists but is invalid throws DataValidationError.
+ */
+export const loadFirstDatasetFile = (paths: string[], readFile: ReadFile): LoadedDataset | null => {
+  for (const path of paths) {
+    try {
+      return loadDatasetFile(path, readFile);
+    } catch (err) {
+      if (err instanceof DataValidationError) throw err;
+      // Missing file: try the next location
+    }
+  }
+  return null;
+};
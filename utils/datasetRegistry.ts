@@ -0,0 +1,71 @@
+import { DatasetInfo, DatasetRegistry } from '../types';
+
+/**
+ * Optional /veri-setleri.json listing the lists the app can switch between, e.g.
+ *
+ *   { "format": "kirsal-alan-veri-setleri", "version": 1, "datasets": [
+ *     { "id": "ipard3-2022", "title": "IPARD III (31.12.2022)", "description": "...",
+ *       "referenceDate": "31.12.2022", "url": "/data.json" },
+ *     { "id": "ipard3-2019", "title": "IPARD III (31.12.2019)", "description": "...",
+ *       "referenceDate": "31.12.2019", "url": "/veri/2019/manifest.json" } ] }
+ *
+ * Shard files of a manifest are loaded from the manifest's folder.
+ */
+
+export const REGISTRY_FORMAT = 'kirsal-alan-veri-setleri';
+export const REGISTRY_URL = '/veri-setleri.json';
+// Last registry downloaded, so the chosen list can still be opened offline
+const REGISTRY_KEY = 'veriSetleri';
+
+const DATASET_FIELDS: (keyof DatasetInfo)[] = ['id', 'title', 'description', 'referenceDate', 'url'];
+
+export const isDatasetRegistry = (raw: unknown): raw is DatasetRegistry => {
+  if (raw === null || typeof raw !== 'object') return false;
+  const registry = raw as Partial<DatasetRegistry>;
+  if (registry.format !== REGISTRY_FORMAT || !Array.isArray(registry.datasets) || registry.datasets.length === 0) return false;
+  const ids = new Set<string>();
+  return registry.datasets.every(entry => {
+    if (entry === null || typeof entry !== 'object') return false;
+    if (!DATASET_FIELDS.every(field => typeof entry[field] === 'string') || !entry.id || !entry.url || ids.has(entry.id)) return false;
+    ids.add(entry.id);
+    return true;
+  });
+};
+
+/**
+ * Downloads the dataset registry. Hosts without one serve a single list (data.json or the
+ * shard manifest), which is reported as an empty registry; without a connection the last
+ * registry seen on this device is used.
+ */
+export const fetchDatasetRegistry = async (): Promise<DatasetInfo[]> => {
+  let response: Response;
+  try {
+    response = await fetch(REGISTRY_URL, { cache: 'no-cache' });
+  } catch (err) {
+    console.warn('Veri seti listesi indirilemedi, cihazdaki kopya kullanılıyor.', err);
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(REGISTRY_KEY) || 'null');
+      return isDatasetRegistry(stored) ? stored.datasets : [];
+    } catch {
+      return [];
+    }
+  }
+
+  let raw: unknown = null;
+  try {
+    if (response.ok) raw = await response.json();
+  } catch {
+    // The host answered with its HTML fallback page
+  }
+  if (!isDatasetRegistry(raw)) {
+    if (response.ok && raw !== null) console.warn(`${REGISTRY_URL} geçerli bir veri seti listesi değil.`);
+    localStorage.removeItem(REGISTRY_KEY);
+    return [];
+  }
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(raw));
+  return raw.datasets;
+};
+
+// The list a link asks for; unknown or missing ids open the registry's first list
+export const findDataset = (datasets: DatasetInfo[], id: string): DatasetInfo | null =>
+  datasets.find(entry => entry.id === id) || datasets[0] || null;
@@ -0,0 +1,159 @@
+import { Locale } from '../types';
+import { LOCALE_TAGS, translate } from './i18n';
+import { SHARD_MANIFEST_URL, isShardManifest } from './shardFormat';
+import { DataValidationError } from './validation';
+import { crc32 } from './zip';
+
+const DB_NAME = 'kirsal-alan';
+const DB_VERSION = 1;
+const STORE_NAME = 'veri-setleri';
+const DATASET_KEY = 'data.json';
+
+export interface DatasetVersion {
+  // Content hash; two downloads with the same id are the same list
+  id: string;
+  // Last-Modified header of the download; copies stored by older versions of the app lack it
+  modified?: string;
+  // Name of an imported file, which is previewed without being stored
+  file?: string;
+}
+
+export interface StoredDataset {
+  version: DatasetVersion;
+  // Raw data.json text, parsed and validated again on every load
+  text: string;
+  savedAt: string;
+}
+
+const createVersion = (text: string, lastModified: string | null): DatasetVersion => {
+  const id = crc32(new TextEncoder().encode(text)).toString(16).padStart(8, '0');
+  return lastModified ? { id, modified: lastModified } : { id };
+};
+
+// Human readable name shown in the update notice, e.g. "12.05.2023 14:30 (#1a2b3c4d)"
+export const datasetVersionLabel = (locale: Locale, version: DatasetVersion): string => {
+  if (version.file !== undefined) return translate(locale, 'list.importedLabel', { file: version.file });
+  const date = version.modified ? new Date(version.modified) : null;
+  return date && !isNaN(date.getTime())
+    ? `${date.toLocaleString(LOCALE_TAGS[locale], { dateStyle: 'short', timeStyle: 'short' })} (#${version.id})`
+    : `#${version.id}`;
+};
+
+/**
+ * Downloads data.json, bypassing the HTTP cache so a newer list is noticed.
+ * Network errors are thrown as they are, missing files as DataValidationError.
+ */
+export const fetchDataset = async (url = '/data.json'): Promise<StoredDataset> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new DataValidationError('bulunamadi', { file: url });
+  }
+  const text = await response.text();
+  return {
+    version: createVersion(text, response.headers.get('Last-Modified')),
+    text,
+    savedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Downloads the entry point of the list: the shard manifest when the host has one, data.json otherwise.
+ * A list of the dataset registry is downloaded from its own url, which may be either of the two.
+ */
+export const fetchLatestDataset = async (url?: string): Promise<StoredDataset> => {
+  if (url) return fetchDataset(url);
+  try {
+    const entry = await fetchDataset(SHARD_MANIFEST_URL);
+    if (isShardManifest(JSON.parse(entry.text))) return entry;
+  } catch {
+    // No manifest, or the host answered with its HTML fallback page
+  }
+  return fetchDataset();
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB desteklenmiyor.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Key of a registry list's stored copy; the host's single list keeps the key it always had
+export const datasetStoreKey = (datasetId?: string): string => (datasetId ? `veri-seti:${datasetId}` : DATASET_KEY);
+
+// Last dataset that passed validation, or null when nothing is stored (or IndexedDB is unavailable)
+export const loadStoredDataset = async (key = DATASET_KEY): Promise<StoredDataset | null> => {
+  try {
+    const entry = await runRequest<StoredDataset | undefined>('readonly', store => store.get(key));
+    return entry || null;
+  } catch (err) {
+    console.warn('Kayıtlı veri okunamadı.', err);
+    return null;
+  }
+};
+
+export const saveStoredDataset = async (entry: StoredDataset, key = DATASET_KEY): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(entry, key));
+  } catch (err) {
+    // Private browsing or a full disk only costs offline support
+    console.warn('Veri cihaza kaydedilemedi.', err);
+  }
+};
+
+// Shards are kept under their URL, whose file name carries the content hash
+const SHARD_KEY_PREFIX = 'parca:';
+
+export const shardStoreKey = (url: string): string => `${SHARD_KEY_PREFIX}${url}`;
+
+// Decoded JSON of a shard downloaded earlier, or null
+export const loadStoredShard = async (key: string): Promise<unknown> => {
+  try {
+    const shard = await runRequest<unknown>('readonly', store => store.get(key));
+    return shard ?? null;
+  } catch (err) {
+    console.warn('Kayıtlı veri okunamadı.', err);
+    return null;
+  }
+};
+
+export const saveStoredShard = async (key: string, shard: unknown): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(shard, key));
+  } catch (err) {
+    console.warn('Veri cihaza kaydedilemedi.', err);
+  }
+};
+
+// Drops stored shards under `baseUrl` that the current manifest no longer lists
+export const pruneStoredShards = async (baseUrl: string, keep: string[]): Promise<void> => {
+  const prefix = shardStoreKey(baseUrl);
+  const kept = new Set(keep);
+  try {
+    const keys = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    const stale = keys.filter((key): key is string => typeof key === 'string' && key.startsWith(prefix) && !kept.has(key));
+    for (const key of stale) {
+      await runRequest('readwrite', store => store.delete(key));
+    }
+  } catch (err) {
+    console.warn('Eski veri parçaları silinemedi.', err);
+  }
+};
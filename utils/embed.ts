@@ -0,0 +1,144 @@
+import { BatchStatus, Filters, Locale, SettlementField, YerlesimYeri } from '../types';
+import { EMPTY_FILTERS } from './filters';
+import { isLocale } from './i18n';
+import { lookupStatus } from './settlementLookup';
+import { DEFAULT_PAGE_SIZE, parseUrlState } from './urlState';
+
+/**
+ * Embeddable widget (embed.html) for partner websites, shown in an iframe.
+ *
+ * URL parameters: the list link parameters q, il, ilce, belediye, mahalle and durum preselect
+ * the search, veri picks a list of the dataset registry, gizle hides columns (gizle=belediye,durum), satir sets the number of rows shown,
+ * dil the language (tr, en) and tema the colours (acik, koyu).
+ *
+ * postMessage API: the host sends { type: 'kirsal-alan:sorgu', id, q, il, ilce, belediye, mahalle, durum, boyut }
+ * to the iframe. The widget shows that search and answers the sender with
+ * { type: 'kirsal-alan:sonuc', id, sonuc, toplam, kayitlar }, where sonuc is the status of the
+ * matched rows as in /api/yerlesim and kayitlar holds at most `boyut` of them. Invalid queries are
+ * answered with { type: 'kirsal-alan:hata', id, hata }. Once the list is loaded the widget posts
+ * { type: 'kirsal-alan:hazir', kayitSayisi } to its parent; queries sent earlier are answered then.
+ * When the list can't be loaded it posts { type: 'kirsal-alan:yuklenemedi', hata } instead, and
+ * every waiting or later query is answered with kirsal-alan:hata.
+ */
+
+export const EMBED_COLUMNS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum'];
+
+// URL parameters of the widget besides the list link ones
+const HIDE_PARAM = 'gizle';
+const ROWS_PARAM = 'satir';
+const LOCALE_PARAM = 'dil';
+const THEME_PARAM = 'tema';
+
+const DEFAULT_ROWS = 10;
+const MAX_ROWS = 50;
+// Same limit as the page size of the HTTP API
+const MAX_RESULT_ROWS = 500;
+
+export const QUERY_MESSAGE = 'kirsal-alan:sorgu';
+
+export type EmbedTheme = 'acik' | 'koyu';
+
+export interface EmbedOptions {
+  searchTerm: string;
+  filters: Filters;
+  // Dataset registry id; empty for the default list
+  dataset: string;
+  hiddenColumns: SettlementField[];
+  // Rows shown in the widget; the rest is a click away in the full list
+  rows: number;
+  // Null keeps the language chosen on this device
+  locale: Locale | null;
+  theme: EmbedTheme;
+}
+
+export type EmbedRequestId = string | number | null;
+
+export interface EmbedQuery {
+  id: EmbedRequestId;
+  searchTerm: string;
+  filters: Filters;
+  // Rows returned in the answer; `toplam` still counts every match
+  limit: number;
+}
+
+export type EmbedMessage =
+  | { type: 'kirsal-alan:hazir'; kayitSayisi: number }
+  | { type: 'kirsal-alan:yuklenemedi'; hata: string }
+  | { type: 'kirsal-alan:sonuc'; id: EmbedRequestId; sonuc: BatchStatus; toplam: number; kayitlar: YerlesimYeri[] }
+  | { type: 'kirsal-alan:hata'; id: EmbedRequestId; hata: string };
+
+export class EmbedQueryError extends Error {
+  id: EmbedRequestId;
+
+  constructor(message: string, id: EmbedRequestId) {
+    super(message);
+    this.name = 'EmbedQueryError';
+    this.id = id;
+  }
+}
+
+const parseRowCount = (value: string | null): number => {
+  const count = Number(value);
+  return value && Number.isInteger(count) && count >= 1 && count <= MAX_ROWS ? count : DEFAULT_ROWS;
+};
+
+/**
+ * Reads the widget configuration from its query string.
+ * Unknown columns and out-of-range values are ignored, like malformed list link parameters.
+ */
+export const parseEmbedOptions = (search: string): EmbedOptions => {
+  const params = new URLSearchParams(search);
+  const { searchTerm, filters, dataset } = parseUrlState(search);
+  const hidden = (params.get(HIDE_PARAM) || '').split(',').map(value => value.trim());
+  const locale = params.get(LOCALE_PARAM);
+
+  return {
+    searchTerm,
+    filters,
+    dataset,
+    hiddenColumns: EMBED_COLUMNS.filter(column => hidden.includes(column)),
+    rows: parseRowCount(params.get(ROWS_PARAM)),
+    locale: isLocale(locale) ? locale : null,
+    theme: params.get(THEME_PARAM) === 'koyu' ? 'koyu' : 'acik'
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a query sent by the host page. Returns null for messages that are not meant for the
+ * widget (other scripts on the page use postMessage too); throws EmbedQueryError for malformed queries.
+ */
+export const parseEmbedQuery = (message: unknown): EmbedQuery | null => {
+  if (!isRecord(message) || message.type !== QUERY_MESSAGE) return null;
+
+  const id = typeof message.id === 'string' || typeof message.id === 'number' ? message.id : null;
+  const text = (key: string): string => {
+    const value = message[key];
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string') throw new EmbedQueryError(`${key} bir metin olmalıdır.`, id);
+    return value.trim();
+  };
+
+  const filters = { ...EMPTY_FILTERS };
+  (Object.keys(EMPTY_FILTERS) as (keyof Filters)[]).forEach(key => {
+    filters[key] = text(key);
+  });
+
+  const limit = message.boyut === undefined ? DEFAULT_PAGE_SIZE : message.boyut;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_RESULT_ROWS) {
+    throw new EmbedQueryError(`boyut 1 ile ${MAX_RESULT_ROWS} arasında bir tam sayı olmalıdır.`, id);
+  }
+
+  return { id, searchTerm: text('q'), filters, limit };
+};
+
+// Answer to a host query from the rows the widget found for it
+export const buildEmbedResult = (query: EmbedQuery, rows: YerlesimYeri[]): EmbedMessage => ({
+  type: 'kirsal-alan:sonuc',
+  id: query.id,
+  sonuc: lookupStatus(rows),
+  toplam: rows.length,
+  kayitlar: rows.slice(0, query.limit)
+});
@@ -0,0 +1,182 @@
+import { BatchResult, DatasetInfo, DiffEntry, Filters, Locale, SettlementDetailField, SettlementField, YerlesimYeri } from '../types';
+import { entryKinds } from './datasetDiff';
+import { CSV_MIME, toCsv } from './csv';
+import { downloadFile, fileDateStamp } from './download';
+import { DETAIL_FIELDS, describeFilters } from './filters';
+import { LOCALE_TAGS, translate } from './i18n';
+import { CellValue, XLSX_MIME, createXlsx } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportContext {
+  searchTerm: string;
+  filters: Filters;
+  datasetDate: string;
+  // List of the dataset registry; null for the built-in IPARD III list
+  dataset: DatasetInfo | null;
+}
+
+const COLUMNS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum'];
+
+// Registry lists describe themselves; the built-in list is the TÜİK-based IPARD III one
+const buildDatasetRows = (datasetDate: string, dataset: DatasetInfo | null, locale: Locale): CellValue[][] => {
+  if (!dataset) {
+    return [[translate(locale, 'export.meta.datasetDate'), translate(locale, 'export.meta.datasetDateValue', { date: datasetDate })]];
+  }
+  return [
+    [translate(locale, 'export.meta.dataset'), dataset.title],
+    ...(dataset.description ? [[translate(locale, 'export.meta.description'), dataset.description]] : []),
+    [translate(locale, 'export.meta.datasetDate'), datasetDate]
+  ];
+};
+
+// Headers, labels and dates follow the interface language; names and durum values are data
+const buildMetadataRows = (context: ExportContext, count: number, exportedAt: Date, locale: Locale): CellValue[][] => [
+  [translate(locale, 'export.meta.listTitle')],
+  ...buildDatasetRows(context.datasetDate, context.dataset, locale),
+  [translate(locale, 'export.meta.search'), context.searchTerm || '-'],
+  [translate(locale, 'export.meta.filters'), describeFilters(context.filters, locale) || translate(locale, 'export.meta.noFilters')],
+  [translate(locale, 'export.meta.count'), count],
+  [translate(locale, 'export.meta.createdAt'), exportedAt.toLocaleString(LOCALE_TAGS[locale])]
+];
+
+// Detail columns are only added when the list carries them
+const detailColumns = (data: YerlesimYeri[]): SettlementDetailField[] =>
+  DETAIL_FIELDS.filter(key => data.some(item => item[key] !== undefined));
+
+const buildHeaderRow = (locale: Locale, details: SettlementDetailField[] = []): CellValue[] =>
+  [...COLUMNS, ...details].map(key => translate(locale, `field.${key}`));
+
+const buildDataRows = (data: YerlesimYeri[], details: SettlementDetailField[] = []): CellValue[][] =>
+  data.map(item => [...COLUMNS.map(key => item[key]), ...details.map(key => item[key])]);
+
+/**
+ * Downloads every row of the given (already filtered) list, not only the visible page.
+ * CSV puts the metadata block above the table; the workbook keeps it on a separate sheet
+ * so the list sheet stays sortable and filterable in Excel.
+ */
+export const exportFilteredData = (data: YerlesimYeri[], context: ExportContext, format: ExportFormat, locale: Locale) => {
+  const exportedAt = new Date();
+  const metadata = buildMetadataRows(context, data.length, exportedAt, locale);
+  const baseName = `kirsal-alan-listesi-${fileDateStamp(exportedAt)}`;
+  const details = detailColumns(data);
+
+  if (format === 'csv') {
+    const rows = [...metadata, [], buildHeaderRow(locale, details), ...buildDataRows(data, details)];
+    downloadFile(toCsv(rows), `${baseName}.csv`, CSV_MIME);
+    return;
+  }
+
+  const workbook = createXlsx([
+    {
+      name: translate(locale, 'export.sheet.list'),
+      rows: [buildHeaderRow(locale, details), ...buildDataRows(data, details)],
+      headerRow: 0,
+      columnWidths: [18, 20, 24, 36, 20, ...details.map(key => (key === 'dayanak' ? 40 : 16))]
+    },
+    {
+      name: translate(locale, 'export.sheet.info'),
+      rows: metadata,
+      columnWidths: [22, 60]
+    }
+  ]);
+  downloadFile(workbook, `${baseName}.xlsx`, XLSX_MIME);
+};
+
+// "ADANA / SEYHAN / SEYHAN / BÜYÜKÇILDIRIM Mah. (Kırsal Alan)"
+export const formatRecord = (item: YerlesimYeri): string =>
+  `${item.il} / ${item.ilce} / ${item.belediye || '-'} / ${item.mahalle} (${item.durum})`;
+
+/**
+ * Downloads the results of a bulk check, one row per input line.
+ */
+export const exportBatchResults = (
+  results: BatchResult[],
+  datasetDate: string,
+  dataset: DatasetInfo | null,
+  format: ExportFormat,
+  locale: Locale
+) => {
+  const exportedAt = new Date();
+  const baseName = `toplu-sorgu-${fileDateStamp(exportedAt)}`;
+
+  const header: CellValue[] = [
+    translate(locale, 'export.col.line'),
+    translate(locale, 'field.il'),
+    translate(locale, 'field.ilce'),
+    translate(locale, 'field.mahalle'),
+    translate(locale, 'export.col.result'),
+    translate(locale, 'export.col.matches'),
+    translate(locale, 'export.col.candidates')
+  ];
+  const rows: CellValue[][] = results.map(result => [
+    result.query.line,
+    result.query.il,
+    result.query.ilce,
+    result.query.mahalle,
+    translate(locale, `batch.status.${result.status}`),
+    result.matches.map(formatRecord).join(' | '),
+    result.candidates.map(formatRecord).join(' | ')
+  ]);
+
+  const metadata: CellValue[][] = [
+    [translate(locale, 'export.meta.batchTitle')],
+    ...buildDatasetRows(datasetDate, dataset, locale),
+    [translate(locale, 'export.meta.queryCount'), results.length],
+    [translate(locale, 'export.meta.createdAt'), exportedAt.toLocaleString(LOCALE_TAGS[locale])]
+  ];
+
+  if (format === 'csv') {
+    downloadFile(toCsv([...metadata, [], header, ...rows]), `${baseName}.csv`, CSV_MIME);
+    return;
+  }
+
+  const workbook = createXlsx([
+    { name: translate(locale, 'export.sheet.results'), rows: [header, ...rows], headerRow: 0, columnWidths: [8, 16, 18, 28, 18, 60, 60] },
+    { name: translate(locale, 'export.sheet.info'), rows: metadata, columnWidths: [22, 60] }
+  ]);
+  downloadFile(workbook, `${baseName}.xlsx`, XLSX_MIME);
+};
+
+/**
+ * Downloads the differences between two dataset versions.
+ */
+export const exportDiff = (entries: DiffEntry[], sourceNames: { before: string; after: string }, format: ExportFormat, locale: Locale) => {
+  const exportedAt = new Date();
+  const baseName = `liste-karsilastirma-${fileDateStamp(exportedAt)}`;
+
+  const changed: SettlementField[] = ['belediye', 'mahalle', 'durum'];
+  const header: CellValue[] = [
+    translate(locale, 'export.col.change'), translate(locale, 'field.il'), translate(locale, 'field.ilce'),
+    ...changed.map(key => translate(locale, 'export.col.before', { field: translate(locale, `field.${key}`) })),
+    ...changed.map(key => translate(locale, 'export.col.after', { field: translate(locale, `field.${key}`) }))
+  ];
+  const rows: CellValue[][] = entries.map(entry => {
+    const { before, after } = entry;
+    const place = (after || before) as YerlesimYeri;
+    return [
+      entryKinds(entry).map(kind => translate(locale, `diff.kind.${kind}`)).join(', '), place.il, place.ilce,
+      before?.belediye, before?.mahalle, before?.durum,
+      after?.belediye, after?.mahalle, after?.durum
+    ];
+  });
+
+  const metadata: CellValue[][] = [
+    [translate(locale, 'export.meta.diffTitle')],
+    [translate(locale, 'export.meta.before'), sourceNames.before],
+    [translate(locale, 'export.meta.after'), sourceNames.after],
+    [translate(locale, 'export.meta.changeCount'), entries.length],
+    [translate(locale, 'export.meta.createdAt'), exportedAt.toLocaleString(LOCALE_TAGS[locale])]
+  ];
+
+  if (format === 'csv') {
+    downloadFile(toCsv([...metadata, [], header, ...rows]), `${baseName}.csv`, CSV_MIME);
+    return;
+  }
+
+  const workbook = createXlsx([
+    { name: translate(locale, 'export.sheet.changes'), rows: [header, ...rows], headerRow: 0, columnWidths: [24, 16, 18, 20, 28, 18, 20, 28, 18] },
+    { name: translate(locale, 'export.sheet.info'), rows: metadata, columnWidths: [22, 60] }
+  ]);
+  downloadFile(workbook, `${baseName}.xlsx`, XLSX_MIME);
+};
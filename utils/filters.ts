@@ -0,0 +1,96 @@
+import { Filters, Locale, SettlementDetailField, YerlesimYeri } from '../types';
+import { translate } from './i18n';
+
+export const EMPTY_FILTERS: Filters = {
+  il: '',
+  ilce: '',
+  belediye: '',
+  mahalle: '',
+  durum: ''
+};
+
+export const FILTER_LABELS: Record<keyof Filters, string> = {
+  il: 'İl',
+  ilce: 'İlçe',
+  belediye: 'Belediye',
+  mahalle: 'Mahalle',
+  durum: 'Durum'
+};
+
+// Optional provenance fields, in the order they are shown in the row details
+export const DETAIL_FIELDS: SettlementDetailField[] = ['kod', 'nufus', 'referansTarihi', 'dayanak'];
+
+export const DETAIL_LABELS: Record<SettlementDetailField, string> = {
+  kod: 'Yerleşim Kodu',
+  nufus: 'Nüfus',
+  referansTarihi: 'Referans Tarihi',
+  dayanak: 'Hukuki Dayanak'
+};
+
+export const FIELD_LABELS: Record<keyof YerlesimYeri, string> = { ...FILTER_LABELS, ...DETAIL_LABELS };
+
+/**
+ * A filter value starting with "=" matches the column exactly; the mahalle filter is fuzzy
+ * otherwise. "=" alone selects rows where the column is empty, e.g. köys without a belediye.
+ * Used where one place has to be selected, like a node of the settlement browser.
+ */
+export const EXACT_PREFIX = '=';
+
+export const exactFilter = (value: string): string => `${EXACT_PREFIX}${value}`;
+
+// The text a filter value is compared with, and whether it has to match exactly
+export const parseFilterValue = (value: string): { text: string; exact: boolean } =>
+  value.startsWith(EXACT_PREFIX) ? { text: value.slice(EXACT_PREFIX.length), exact: true } : { text: value, exact: false };
+
+// Filter value as shown to users; an empty column is written "-" as in the table
+export const formatFilterValue = (value: string): string => parseFilterValue(value).text || '-';
+
+export interface SanitizedFilters {
+  filters: Filters;
+  dropped: { key: keyof Filters; value: string }[];
+}
+
+/**
+ * Drops filter values that do not exist in the loaded data (e.g. a stale ilçe coming from an old link).
+ * Dropdown filters are checked hierarchically, so an ilçe is only kept if it belongs to the selected il.
+ * The mahalle filter is free text (or an exact name, which simply matches nothing) and is always kept.
+ */
+export const sanitizeFilters = (filters: Filters, data: YerlesimYeri[]): SanitizedFilters => {
+  const result: Filters = { ...filters };
+  const dropped: SanitizedFilters['dropped'] = [];
+
+  const hierarchy: (keyof Filters)[] = ['il', 'ilce', 'belediye'];
+  let scope = data;
+
+  for (const key of hierarchy) {
+    const value = result[key];
+    if (!value) continue;
+
+    const { text } = parseFilterValue(value);
+    const narrowed = scope.filter(item => item[key] === text);
+    if (narrowed.length === 0) {
+      dropped.push({ key, value });
+      result[key] = '';
+    } else {
+      scope = narrowed;
+    }
+  }
+
+  if (result.durum && !data.some(item => item.durum === parseFilterValue(result.durum).text)) {
+    dropped.push({ key: 'durum', value: result.durum });
+    result.durum = '';
+  }
+
+  return { filters: result, dropped };
+};
+
+// Human readable summary of the active filters, e.g. "İl: ADANA; Durum: Kırsal Alan"
+export const describeFilters = (filters: Filters, locale: Locale): string =>
+  (Object.keys(FILTER_LABELS) as (keyof Filters)[])
+    .filter(key => filters[key])
+    .map(key => `${translate(locale, `field.${key}`)}: ${formatFilterValue(filters[key])}`)
+    .join('; ');
+
+export const KIRSAL_ALAN = 'Kırsal Alan';
+export const KIRSAL_ALAN_DEGIL = 'Kırsal Alan Değil';
+export const DURUM_VALUES = [KIRSAL_ALAN, KIRSAL_ALAN_DEGIL];
@@ -0,0 +1,131 @@
+import { normalizeTurkish } from './textUtils';
+
+// Administrative suffixes that are written inconsistently ("Mah.", "Mahallesi", "Köyü", "Beldesi" ...)
+const SUFFIX_PATTERN = /\s+(mahallesi|mahalle|mah|mh|koyu|koy|beldesi|belde|belediyesi|kasabasi)$/;
+
+/**
+ * Normalizes a settlement name for matching: folds Turkish characters and case,
+ * drops punctuation and trailing administrative suffixes.
+ * "BÜYÜKÇILDIRIM Mah.", "Büyükçıldırım Mahallesi" and "büyükçıldırım köyü" all become "buyukcildirim".
+ */
+export const normalizeSettlementName = (text: string): string => {
+  let normalized = normalizeTurkish(text)
+    .replace(/[.,;:'’"()\-_/\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Strip repeatedly ("X Köyü Mah." -> "x"), but never down to an empty string
+  let stripped = normalized.replace(SUFFIX_PATTERN, '');
+  while (stripped !== normalized && stripped !== '') {
+    normalized = stripped;
+    stripped = normalized.replace(SUFFIX_PATTERN, '');
+  }
+
+  return normalized;
+};
+
+// Allowed typos grow with the query length; very short queries must match exactly
+const maxEditsFor = (length: number): number => {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+};
+
+/**
+ * Smallest edit distance between the pattern and any substring of the text (Sellers' algorithm).
+ * Distances above maxEdits are reported as Infinity.
+ */
+const approximateSubstringDistance = (pattern: string, text: string, maxEdits: number): number => {
+  const m = pattern.length;
+  let prev = new Array<number>(m + 1);
+  let cur = new Array<number>(m + 1);
+  for (let i = 0; i <= m; i++) prev[i] = i;
+
+  let best = prev[m];
+  for (let j = 0; j < text.length && best > 0; j++) {
+    cur[0] = 0;
+    for (let i = 1; i <= m; i++) {
+      const cost = pattern[i - 1] === text[j] ? 0 : 1;
+      cur[i] = Math.min(prev[i] + 1, cur[i - 1] + 1, prev[i - 1] + cost);
+    }
+    if (cur[m] < best) best = cur[m];
+    [prev, cur] = [cur, prev];
+  }
+
+  return best > maxEdits ? Infinity : best;
+};
+
+export interface PreparedQuery {
+  text: string;
+  maxEdits: number;
+}
+
+// Normalize once per query instead of once per compared record
+export const prepareQuery = (query: string): PreparedQuery => {
+  const text = normalizeSettlementName(query);
+  return { text, maxEdits: maxEditsFor(text.length) };
+};
+
+/**
+ * Scores how closely a normalized target matches the query; lower is closer, null means no match.
+ *   0     exact match
+ *   1     target starts with the query
+ *   2     a word in the target starts with the query
+ *   3     target contains the query
+ *   4+d   target contains the query with d typos
+ */
+export const scoreMatch = (query: PreparedQuery, target: string): number | null => {
+  const q = query.text;
+  if (!q) return 0;
+  if (!target) return null;
+
+  if (target === q) return 0;
+  if (target.startsWith(q)) return 1;
+
+  const index = target.indexOf(q);
+  if (index > 0) return target[index - 1] === ' ' ? 2 : 3;
+
+  if (query.maxEdits === 0 || q.length > target.length + query.maxEdits) return null;
+
+  const distance = approximateSubstringDistance(q, target, query.maxEdits);
+  return Number.isFinite(distance) ? 4 + distance : null;
+};
+
+/**
+ * Best (lowest) score across several normalized fields, or null if none match.
+ */
+export const bestScore = (query: PreparedQuery, targets: string[]): number | null => {
+  let best: number | null = null;
+  for (const target of targets) {
+    const score = scoreMatch(query, target);
+    if (score !== null && (best === null || score < best)) {
+      best = score;
+      if (best === 0) break;
+    }
+  }
+  return best;
+};
+
+/**
+ * Plain edit distance between two (normalized) strings.
+ */
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  let prev = new Array<number>(b.length + 1);
+  let cur = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    cur[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, cur] = [cur, prev];
+  }
+
+  return prev[b.length];
+};
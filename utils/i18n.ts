@@ -0,0 +1,740 @@
+import { Locale } from '../types';
+
+/**
+ * Message catalogue of the interface. Turkish is the reference: its keys define MessageKey and
+ * every other language must translate all of them (the compiler checks). Placeholders are
+ * written as {name}. Only interface text lives here; il/ilçe/mahalle names and durum values
+ * come from the data and are never translated.
+ */
+const tr = {
+  'app.title': 'Kırsal Alan Listesi',
+  'app.intro': 'TÜİK tarafından {date} tarihli nüfus verilerine göre kır statüsünde olduğu belirlenen yerleşim yerleri IPARD III Programı için kırsal alan olarak tanımlanmaktadır.',
+  'app.datasetVersion': 'Veri sürümü: {label}',
+  'app.toggleTheme': 'Tema Değiştir',
+  'app.language': 'Dil',
+  'app.dataset': 'Veri seti',
+  'app.datasetDate': 'Referans tarihi: {date}',
+  'app.loading': 'Veriler Yükleniyor...',
+  'app.reload': 'Sayfayı Yenile',
+  'app.continueQuarantine': 'Hatalı Kayıtları Ayırarak Devam Et',
+  'app.continueSample': 'Örnek Verilerle Devam Et',
+  'app.dismiss': 'Bildirimi Kapat',
+
+  'error.data.bulunamadi': '{file} sunucuda bulunamadı.',
+  'error.data.liste-degil': 'Veri formatı hatalı: data.json bir kayıt listesi (dizi) içermelidir.',
+  'error.data.gecersiz-json': '{file} geçerli bir JSON dosyası değil.',
+  'error.data.parca-bicimi': '{file} parça dosyası beklenen biçimde değil.',
+  'error.data.parca-uzunluk': '{file} parça dosyasındaki sütunların uzunlukları farklı.',
+  'error.data.reddedildi': '{count} kayıt hatalı olduğu için liste yüklenmedi.',
+  'error.data.gecerli-kayit-yok': 'data.json içinde geçerli kayıt bulunamadı.',
+  'error.shardDownload': '{il} verisi indirilemedi.',
+  'error.updateFailed': '{label} sürümü yüklenemedi: {error}',
+
+  'banner.sample.title': 'Örnek Veriler Gösteriliyor',
+  'banner.sample.unavailable': '50.000 kayıtlık listeniz şu an yüklenemediği için örnek veriler listelenmektedir.',
+  'banner.sample.upload': 'Tam listeyi görmek için {file} dosyasını GitHub\'a "Upload files" yöntemiyle yüklediğinizden emin olun.',
+  'banner.sample.import': 'Resmi Excel listesini {tab} sekmesinden data.json dosyasına dönüştürebilirsiniz.',
+  'banner.update.title': 'Yeni Veri Sürümü Yayınlandı',
+  'banner.update.available': '{label} sürümü kullanılabilir.',
+  'banner.update.current': 'Şu an gösterilen: {label}.',
+  'banner.update.apply': 'Güncelle',
+  'banner.update.later': 'Sonra',
+  'banner.update.keepCurrent': 'Mevcut liste kullanılmaya devam ediyor.',
+  'banner.offline.title': 'Çevrimdışı Çalışılıyor',
+  'banner.offline.body': 'Sunucuya ulaşılamadı. Cihazda kayıtlı {label} sürümü kullanılıyor.',
+  'banner.shards.title': 'Liste İl Bazında Yükleniyor',
+  'banner.shards.progress': '{total} ilden {loaded} tanesinin verisi yüklendi.',
+  'banner.shards.hint': 'Bir il seçtiğinizde ya da arama yaptığınızda gereken veriler indirilir.',
+  'banner.shards.retry': 'Tekrar dene',
+  'banner.shards.loadAll': 'Tüm Listeyi Yükle',
+  'banner.quality.title': 'Hatalı Kayıtlar Listelenmiyor',
+  'banner.quality.body': 'data.json içindeki {count} kayıt doğrulamadan geçemediği için karantinaya alındı.',
+  'banner.quality.link': 'Veri kalitesi raporunu görüntüleyin.',
+  'banner.watch.title': 'Takip Edilen Yerleşimlerde Durum Değişikliği',
+  'banner.watch.body': 'Takip ettiğiniz {count} yerleşimin durumu yüklenen listede farklı.',
+  'banner.watch.link': 'Takip listesini görüntüleyin.',
+  'banner.urlFilters.title': 'Bağlantıdaki Bazı Filtreler Uygulanamadı',
+  'banner.urlFilters.body': 'Aşağıdaki değerler mevcut listede bulunamadığı için kaldırıldı:',
+
+  'nav.liste': 'Liste',
+  'nav.istatistik': 'İstatistikler',
+  'nav.harita': 'Harita',
+  'nav.gezin': 'Gezin',
+  'nav.takip': 'Takip',
+  'nav.toplu': 'Toplu Sorgu',
+  'nav.karsilastir': 'Karşılaştır',
+  'nav.kalite': 'Veri Kalitesi',
+  'nav.ice-aktar': 'İçe Aktar',
+
+  'field.il': 'İl',
+  'field.ilce': 'İlçe',
+  'field.belediye': 'Belediye',
+  'field.mahalle': 'Mahalle',
+  'field.durum': 'Durum',
+  'field.kod': 'Yerleşim Kodu',
+  'field.nufus': 'Nüfus',
+  'field.referansTarihi': 'Referans Tarihi',
+  'field.dayanak': 'Hukuki Dayanak',
+
+  'search.placeholder': 'İl, İlçe, Mahalle veya Durum ara...',
+  'search.clearTitle': 'Aramayı ve Filtreleri Temizle',
+  'search.clear': 'Temizle',
+  'search.syntaxHint': 'Gelişmiş arama: {example}',
+  'search.syntaxExample': 'il:adana durum:kırsal -mahalle:merkez "tam ifade" OR ilçe:seyhan',
+  'search.syntaxError': '{position}. karakter: {message} Sorgu düz metin olarak aranıyor.',
+  'search.suggestions': 'Arama önerileri',
+  'search.didYouMean': 'Bunu mu demek istediniz:',
+
+  'embed.loadFailed': 'Kırsal alan listesi yüklenemedi.',
+  'embed.shown': '{count} kayıttan ilk {shown} tanesi gösteriliyor',
+  'embed.openFull': 'Tüm listede aç',
+
+  'query.error.tirnak-kapanmadi': 'Tırnak işareti kapatılmamış.',
+  'query.error.bos-deger': '"{field}:" sonrasına aranacak değeri yazın.',
+  'query.error.bilinmeyen-alan': '"{field}" bilinen bir alan değil; il, ilçe, belediye, mahalle ya da durum kullanın.',
+  'query.error.eksik-ifade': '{operator} iki arama ifadesinin arasında yer almalı.',
+  'query.errorAt': '{position}. karakter: {message}',
+
+  'list.found': '{count} kayıt bulundu',
+  'list.searching': 'Aranıyor...',
+  'list.downloading': 'Veriler indiriliyor...',
+  'list.noBelediye': 'Belediyesi olmayanlar',
+  'list.wholeListPending': 'Bu görünüm tüm illerin verisini kullanır; {total} ilden {loaded} tanesi yüklendi.',
+  'list.selectIl': 'Kayıtları görmek için bir il seçin ya da arama yapın.',
+  'list.empty': 'Kriterlere uygun kayıt bulunamadı.',
+  'list.clearFilters': 'Filtreleri Temizle',
+  'list.modeGroup': 'Liste görünümü',
+  'list.mode.sayfali': 'Sayfalı',
+  'list.mode.kaydirmali': 'Kaydırmalı',
+  'list.modeTitle.sayfali': 'Sonuçları sayfa sayfa göster',
+  'list.modeTitle.kaydirmali': 'Tüm sonuçları tek tabloda kaydırarak göster',
+  'list.scrollHint': 'Tüm sonuçlar tek tabloda gösteriliyor; sayfalara bölmek için "Sayfalı" görünüme geçin.',
+  'list.pageOf': 'Sayfa {page} / {total}',
+  'list.actionsColumn': 'Ayrıntılar ve takip',
+  'list.filterAll': 'Tümü',
+  'list.mahallePlaceholder': 'Mahalle ara...',
+  'list.sortHint': 'Sıralamak için tıklayın, ek sıralama için Shift tuşuyla tıklayın',
+  'list.loadedLabel': 'Yüklü liste ({date})',
+  'list.importedLabel': '{file} (içe aktarıldı, kaydedilmedi)',
+
+  'row.details': '{name} ayrıntıları',
+  'row.watch': '{name} takip',
+  'row.watchAdd': 'Takibe Al',
+  'row.watchRemove': 'Takipten Çıkar',
+  'row.print': '{name} durum belgesini yazdır',
+  'row.printTitle': 'Durum Belgesi Yazdır / PDF',
+  'row.notSpecified': 'Belirtilmemiş',
+  'row.datasetWide': '{date} (listenin geneli)',
+  'row.noDetails': 'Bu kayıt için yerleşime özel ek bilgi yayımlanmamış; durumu, listenin geneli için geçerli olan {date} tarihli TÜİK nüfus verilerine dayanır.',
+
+  'export.button': 'Dışa Aktar',
+  'export.print': 'Yazdır / PDF Rapor',
+  'export.count': '{count} kaydın tamamı aktarılır.',
+  'print.confirm': '{count} kayıtlık rapor çok sayfalı olacak ve hazırlanması zaman alabilir. Devam edilsin mi?',
+
+  'status.kirsal': 'Kırsal Alan',
+  'status.kirsalDegil': 'Kırsal Alan Değil',
+  'severity.hata': 'Hata',
+  'severity.uyari': 'Uyarı',
+  'severity.bilgi': 'Bilgi',
+
+  'export.downloadCsv': 'CSV İndir',
+  'export.downloadXlsx': 'Excel İndir',
+  'export.meta.listTitle': 'Kırsal Alan Listesi',
+  'export.meta.batchTitle': 'Kırsal Alan Toplu Sorgu Sonuçları',
+  'export.meta.diffTitle': 'Kırsal Alan Listesi Karşılaştırması',
+  'export.meta.dataset': 'Liste',
+  'export.meta.description': 'Açıklama',
+  'export.meta.datasetDate': 'Veri Tarihi',
+  'export.meta.datasetDateValue': '{date} (TÜİK nüfus verileri)',
+  'export.meta.search': 'Arama',
+  'export.meta.filters': 'Filtreler',
+  'export.meta.noFilters': 'Yok',
+  'export.meta.count': 'Kayıt Sayısı',
+  'export.meta.queryCount': 'Sorgu Sayısı',
+  'export.meta.changeCount': 'Değişiklik Sayısı',
+  'export.meta.before': 'Eski Liste',
+  'export.meta.after': 'Yeni Liste',
+  'export.meta.createdAt': 'Oluşturulma Tarihi',
+  'export.sheet.list': 'Liste',
+  'export.sheet.results': 'Sonuçlar',
+  'export.sheet.changes': 'Değişiklikler',
+  'export.sheet.info': 'Bilgi',
+  'export.col.line': 'Satır',
+  'export.col.result': 'Sonuç',
+  'export.col.matches': 'Eşleşen Kayıtlar',
+  'export.col.candidates': 'Benzer Kayıtlar',
+  'export.col.change': 'Değişiklik',
+  'export.col.before': 'Eski {field}',
+  'export.col.after': 'Yeni {field}',
+
+  'stats.settlements': 'Yerleşim Yeri',
+  'stats.total': 'Toplam',
+  'stats.ratio': 'Kırsal Oranı',
+  'stats.activeFilters': 'Aktif filtreler:',
+  'stats.removeFilter': '{field} filtresini kaldır',
+  'stats.byLevel': '{level} Bazında',
+  'stats.chartTitle': 'İlk {count} {level} ({column} sırasına göre)',
+  'stats.barTitle': '{name}: {kirsal} kırsal, {kirsalDegil} kırsal değil',
+  'stats.drillDown': 'Bu kayıtlara göre filtrele',
+
+  'map.label': 'İllere göre kırsal alan oranı haritası',
+  'map.noRecords': 'Listede kayıt yok',
+  'map.legend': 'Kırsal yerleşim oranı:',
+  'map.noData': 'Veri yok',
+  'map.hint': 'Bir ile tıklayarak ilçelerini görün; bir ilçe seçerek listeyi ona göre filtreleyin.',
+  'map.districts': '{il} ilçeleri',
+  'map.back': 'Tüm iller',
+  'map.showInList': 'Bu ili listede göster',
+
+  'browser.empty': 'Gezinilecek kayıt yok.',
+  'browser.hint': 'İl, ilçe ve belediyeyi açarak mahalleye ulaşın; bir satıra tıklamak ya da Enter\'a basmak listeyi o yere göre süzer.',
+  'browser.collapseAll': 'Tümünü Daralt',
+  'browser.treeLabel': 'İl, ilçe, belediye ve mahalle ağacı',
+  'browser.nodeLabel': '{level}: {name}, {kirsal} kırsal alan, {kirsalDegil} kırsal alan değil',
+  'browser.noBelediye': 'Belediyesi belirtilmemiş',
+
+  'watch.intro': 'Takip listesi bu cihazda saklanır. Ekibinizle paylaşmak için dışa aktarıp diğer cihazlarda içe aktarabilirsiniz.',
+  'watch.imported': '{file}: {count} yeni kayıt eklendi, mevcut kayıtların notları birleştirildi.',
+  'watch.error.gecersiz-json': 'Dosya geçerli bir JSON dosyası değil.',
+  'watch.error.takip-listesi-degil': 'Dosya bir takip listesi değil.',
+  'watch.error.surum-desteklenmiyor': 'Takip listesi sürümü desteklenmiyor: {version}',
+  'watch.settlements': 'Takip Edilen Yerleşimler ({count})',
+  'watch.empty': 'Listede bir satırın yanındaki yıldıza tıklayarak yerleşimi takibe alın.',
+  'watch.col.settlement': 'Yerleşim',
+  'watch.col.note': 'Not',
+  'watch.state.ayni': 'Değişmedi',
+  'watch.state.degisti': 'Durumu Değişti',
+  'watch.state.bulunamadi': 'Listede Yok',
+  'watch.state.yuklenmedi': 'Veri Yüklenmedi',
+  'watch.state.baska-liste': 'Başka Listede Takipte',
+  'watch.acknowledge': 'Değişikliği Gördüm',
+  'watch.rebase': 'Bu Listede Takip Et',
+  'watch.notePlaceholder': 'Not ekleyin...',
+  'watch.show': 'Listede Göster',
+  'watch.searches': 'Kayıtlı Aramalar ({count})',
+  'watch.currentSearch': 'Geçerli arama:',
+  'watch.wholeList': 'Tüm liste',
+  'watch.searchName': 'Arama adı',
+  'watch.searchNote': 'Not (isteğe bağlı)',
+  'watch.saveSearch': 'Aramayı Kaydet',
+  'watch.apply': 'Uygula',
+  'watch.delete': 'Sil',
+
+  'batch.title': 'Toplu Adres Kontrolü',
+  'batch.intro': 'Her satıra bir yerleşim yeri gelecek şekilde {columns} yazın veya yapıştırın ya da aynı sütunları içeren bir CSV dosyası yükleyin. Virgül, noktalı virgül ve sekme ayraçları desteklenir.',
+  'batch.fileError': 'Dosya okunamadı. Lütfen UTF-8 kodlu bir CSV dosyası seçin.',
+  'batch.run': 'Kontrol Et',
+  'batch.upload': 'CSV Yükle',
+  'batch.status.kirsal': 'Kırsal Alan',
+  'batch.status.kirsal-degil': 'Kırsal Alan Değil',
+  'batch.status.bulunamadi': 'Bulunamadı',
+  'batch.status.belirsiz': 'Belirsiz',
+  'batch.col.line': 'Satır',
+  'batch.col.query': 'Girilen Yerleşim Yeri',
+  'batch.col.result': 'Sonuç',
+  'batch.col.matches': 'Eşleşen / Benzer Kayıtlar',
+  'batch.didYouMean': 'Bunu mu demek istediniz?',
+  'batch.noLines': 'Kontrol edilecek satır bulunamadı.',
+
+  'diff.title': 'Liste Sürümlerini Karşılaştır',
+  'diff.intro': 'İki data.json sürümünü seçin. Kayıtlar il/ilçe/belediye/mahalle adlarına göre eşleştirilir; durumu değişen, eklenen, kaldırılan ve adı değişen yerleşim yerleri listelenir.',
+  'diff.side.before': 'Eski Liste',
+  'diff.side.after': 'Yeni Liste',
+  'diff.sourceRows': '{count} kayıt',
+  'diff.sourceQuarantined': ', {count} hatalı kayıt dahil edilmedi',
+  'diff.removeSource': '{side} seçimini kaldır',
+  'diff.chooseFile': 'JSON Dosyası Seç',
+  'diff.useLoaded': 'Yüklü Listeyi Kullan',
+  'diff.noValidRows': 'Dosyada geçerli kayıt yok.',
+  'diff.readError': '{file} okunamadı: {error}',
+  'diff.kind.kirsala-gecti': 'Kırsal Alana Geçti',
+  'diff.kind.kirsaldan-cikti': 'Kırsal Alandan Çıktı',
+  'diff.kind.eklendi': 'Eklendi',
+  'diff.kind.kaldirildi': 'Kaldırıldı',
+  'diff.kind.yeniden-adlandirildi': 'Adı/Belediyesi Değişti',
+  'diff.allIls': 'Tüm İller',
+  'diff.textPlaceholder': 'İlçe, belediye veya mahalle ara...',
+  'diff.col.kind': 'Değişiklik',
+  'diff.noChanges': 'İki liste arasında fark bulunamadı.',
+  'diff.noMatches': 'Kriterlere uygun değişiklik bulunamadı.',
+
+  'quality.noReport': 'Örnek veriler gösterildiği için veri kalitesi raporu bulunmuyor.',
+  'quality.title': 'Veri Kalitesi Raporu',
+  'quality.totalRows': 'Toplam Kayıt',
+  'quality.listed': 'Listelenen',
+  'quality.quarantined': 'Karantinada',
+  'quality.warnings': 'Uyarı',
+  'quality.policy': 'Hatalı kayıtlar',
+  'quality.policy.karantina': 'Ayır ve geçerli kayıtları listele (karantina)',
+  'quality.policy.reddet': 'Hatalı kayıt varsa listeyi hiç yükleme',
+  'quality.download': 'Raporu İndir (CSV)',
+  'quality.col.row': 'Satır',
+  'quality.col.severity': 'Önem',
+  'quality.col.type': 'Tür',
+  'quality.col.field': 'Alan',
+  'quality.col.value': 'Değer',
+  'quality.col.message': 'Açıklama',
+  'quality.truncated': 'İlk {shown} sorun gösteriliyor. Tamamı için raporu indirin ({total} sorun).',
+  'issue.gecersiz-kayit': 'Geçersiz Kayıt',
+  'issue.eksik-alan': 'Eksik Alan',
+  'issue.gecersiz-tip': 'Hatalı Veri Tipi',
+  'issue.bilinmeyen-durum': 'Bilinmeyen Durum',
+  'issue.mukerrer': 'Mükerrer Kayıt',
+  'issue.bosluk': 'Fazla Boşluk',
+  'issue.harf-buyuklugu': 'Harf Büyüklüğü',
+  'issue.message.kayit-nesne-degil': 'Kayıt bir nesne değil.',
+  'issue.message.alan-eksik': '{field} alanı eksik.',
+  'issue.message.sayi-girilmis': '{field} metin yerine sayı olarak girilmiş.',
+  'issue.message.metin-degil': '{field} alanı metin değil.',
+  'issue.message.fazla-bosluk': '{field} başında, sonunda veya içinde fazla boşluk var.',
+  'issue.message.buyuk-harf-degil': '{field} büyük harfle yazılmamış.',
+  'issue.message.metin-girilmis': '{field} sayı yerine metin olarak girilmiş.',
+  'issue.message.tam-sayi-degil': '{field} negatif olmayan bir tam sayı olmalıdır; değer yok sayıldı.',
+  'issue.message.detay-metin-degil': '{field} alanı metin değil; değer yok sayıldı.',
+  'issue.message.bilinmeyen-durum': 'Durum "{kirsal}" veya "{kirsalDegil}" olmalıdır.',
+  'issue.message.mukerrer-farkli-durum': '{row}. kayıtla aynı yerleşim yeri, farklı durumla tekrar edilmiş.',
+  'issue.message.mukerrer': '{row}. kaydın tekrarı.',
+
+  'import.title': 'Resmi Listeden İçe Aktar',
+  'import.intro': 'TÜİK/IPARD kırsal alan listesini {xlsx} ya da {csv} olarak yükleyin. Başlık satırı ve sütunlar otomatik bulunur; adlar kırpılıp büyük harfe çevrilir, durum ifadeleri "Kırsal Alan" / "Kırsal Alan Değil" olarak yazılır. Sonuç {target} yerine konabilecek bir dosya olarak indirilir.',
+  'import.fileError': 'Dosya okunamadı. Lütfen .xlsx ya da .csv biçiminde bir liste seçin.',
+  'import.reading': 'Okunuyor...',
+  'import.chooseFile': 'Dosya Seç',
+  'import.headerRow': 'Başlık Satırı',
+  'import.auto': 'Otomatik',
+  'import.autoColumn': 'Otomatik ({column})',
+  'import.column': '{field} Sütunu',
+  'import.noColumn': 'Yok',
+  'import.emptyHeader': '(boş)',
+  'import.sourceRows': 'Kaynak Satır',
+  'import.imported': 'Aktarılan',
+  'import.skipped': 'Atlanan',
+  'import.corrected': 'Düzeltilen',
+  'import.downloadJson': 'data.json İndir',
+  'import.downloadSummary': 'Özeti İndir (CSV)',
+  'import.preview': 'Listede Önizle',
+  'import.truncated': 'İlk {shown} satır gösteriliyor. Tamamı için özeti indirin ({total} satır).',
+  'import.error.missingColumns': 'Başlık satırında şu sütunlar bulunamadı: {columns}. Sütun eşleştirmesini elle seçin.',
+  'import.error.missingColumnsAt': '{row}. satırda şu sütunlar bulunamadı: {columns}. Sütun eşleştirmesini elle seçin.',
+  'import.skipped.kind': 'Atlandı',
+  'import.skipped.bos-satir': 'Boş satır.',
+  'import.skipped.tekrar-baslik': 'Tekrarlanan başlık satırı.',
+
+  'shards.title': 'İl Bazında Parçalı Veri Paketi',
+  'shards.intro': 'Yüklü listeyi, ilçe ve belediye adlarını yalnızca bir kez saklayan il bazında dosyalara böler. Paketteki {folder} klasörünü {target} altına koyduğunuzda uygulama tüm listeyi beklemeden açılır ve illeri ihtiyaç oldukça indirir.',
+  'shards.download': 'Paketi İndir (.zip)',
+
+  'print.source': 'Kaynak: {source}. Bu çıktı bilgilendirme amaçlıdır; başvuru öncesinde güncel listenin yetkili kurumdan teyit edilmesi önerilir.',
+  'print.defaultSource': 'TÜİK tarafından {date} tarihli nüfus verilerine göre belirlenen kırsal alan listesi (IPARD III)',
+  'print.defaultList': 'IPARD III kırsal alan listesi',
+  'print.dataset': 'Liste',
+  'print.mahalle': 'Mahalle / Köy',
+  'print.certificate.title': 'Kırsal Alan Durum Belgesi',
+  'print.certificate.subtitle': 'Yerleşim yerinin "{list}" listesindeki durumu',
+  'print.certificate.rural': '{mahalle} ({il} / {ilce}) yerleşim yeri kırsal alan kapsamındadır.',
+  'print.certificate.notRural': '{mahalle} ({il} / {ilce}) yerleşim yeri kırsal alan kapsamında değildir.',
+  'print.referenceDate': 'Veri Referans Tarihi',
+  'print.dataVersion': 'Veri Sürümü',
+  'print.queriedAt': 'Sorgulama Tarihi',
+  'print.report.title': 'Kırsal Alan Listesi Raporu',
+  'print.report.search': 'Arama',
+  'print.report.filters': 'Filtreler',
+  'print.report.noFilters': 'Yok',
+  'print.report.count': 'Kayıt Sayısı',
+  'print.report.countValue': '{total} ({kirsal} kırsal alan, {kirsalDegil} kırsal alan değil)',
+  'print.report.dateWithVersion': '{date} (sürüm {label})',
+
+  'pagination.previous': 'Önceki Sayfa',
+  'pagination.next': 'Sonraki Sayfa',
+  'pagination.perPage': 'Sayfa başına',
+  'pagination.perPageSuffix': 'kayıt',
+  'pagination.jump': 'Sayfaya git',
+  'pagination.go': 'Git'
+};
+
+export type MessageKey = keyof typeof tr;
+
+const en: Record<MessageKey, string> = {
+  'app.title': 'Rural Area List',
+  'app.intro': 'Settlements classified as rural by TurkStat (TÜİK) based on population data dated {date} are defined as rural areas for the IPARD III Programme.',
+  'app.datasetVersion': 'Data version: {label}',
+  'app.toggleTheme': 'Toggle theme',
+  'app.language': 'Language',
+  'app.dataset': 'Dataset',
+  'app.datasetDate': 'Reference date: {date}',
+  'app.loading': 'Loading data...',
+  'app.reload': 'Reload Page',
+  'app.continueQuarantine': 'Continue Without Invalid Records',
+  'app.continueSample': 'Continue with Sample Data',
+  'app.dismiss': 'Dismiss',
+
+  'error.data.bulunamadi': '{file} was not found on the server.',
+  'error.data.liste-degil': 'Invalid data format: data.json must contain a list (array) of records.',
+  'error.data.gecersiz-json': '{file} is not a valid JSON file.',
+  'error.data.parca-bicimi': 'The shard file {file} is not in the expected format.',
+  'error.data.parca-uzunluk': 'The columns of the shard file {file} differ in length.',
+  'error.data.reddedildi': 'The list was not loaded because {count} records are invalid.',
+  'error.data.gecerli-kayit-yok': 'No valid records were found in data.json.',
+  'error.shardDownload': 'The data of {il} could not be downloaded.',
+  'error.updateFailed': 'Version {label} could not be loaded: {error}',
+
+  'banner.sample.title': 'Showing Sample Data',
+  'banner.sample.unavailable': 'Your list of 50,000 records could not be loaded, so sample data is shown.',
+  'banner.sample.upload': 'To see the full list, make sure {file} has been uploaded to GitHub with "Upload files".',
+  'banner.sample.import': 'You can convert the official Excel list into data.json in the {tab} tab.',
+  'banner.update.title': 'New Data Version Published',
+  'banner.update.available': 'Version {label} is available.',
+  'banner.update.current': 'Currently shown: {label}.',
+  'banner.update.apply': 'Update',
+  'banner.update.later': 'Later',
+  'banner.update.keepCurrent': 'The current list remains in use.',
+  'banner.offline.title': 'Working Offline',
+  'banner.offline.body': 'The server could not be reached. Using version {label} stored on this device.',
+  'banner.shards.title': 'List Is Loaded by Province',
+  'banner.shards.progress': 'Data for {loaded} of {total} provinces has been loaded.',
+  'banner.shards.hint': 'The data you need is downloaded when you select a province or search.',
+  'banner.shards.retry': 'Try again',
+  'banner.shards.loadAll': 'Load Full List',
+  'banner.quality.title': 'Invalid Records Are Not Listed',
+  'banner.quality.body': '{count} records in data.json failed validation and were quarantined.',
+  'banner.quality.link': 'View the data quality report.',
+  'banner.watch.title': 'Status Change in Watched Settlements',
+  'banner.watch.body': '{count} of your watched settlements have a different status in the loaded list.',
+  'banner.watch.link': 'View the watchlist.',
+  'banner.urlFilters.title': 'Some Filters in the Link Could Not Be Applied',
+  'banner.urlFilters.body': 'The following values were removed because they are not in the current list:',
+
+  'nav.liste': 'List',
+  'nav.istatistik': 'Statistics',
+  'nav.harita': 'Map',
+  'nav.gezin': 'Browse',
+  'nav.takip': 'Watchlist',
+  'nav.toplu': 'Batch Check',
+  'nav.karsilastir': 'Compare',
+  'nav.kalite': 'Data Quality',
+  'nav.ice-aktar': 'Import',
+
+  'field.il': 'Province',
+  'field.ilce': 'District',
+  'field.belediye': 'Municipality',
+  'field.mahalle': 'Neighbourhood',
+  'field.durum': 'Status',
+  'field.kod': 'Settlement Code',
+  'field.nufus': 'Population',
+  'field.referansTarihi': 'Reference Date',
+  'field.dayanak': 'Legal Basis',
+
+  'search.placeholder': 'Search province, district, neighbourhood or status...',
+  'search.clearTitle': 'Clear search and filters',
+  'search.clear': 'Clear',
+  'search.syntaxHint': 'Advanced search: {example}',
+  'search.syntaxExample': 'il:adana durum:kırsal -mahalle:merkez "exact phrase" OR ilce:seyhan',
+  'search.syntaxError': 'Character {position}: {message} The query is searched as plain text.',
+  'search.suggestions': 'Search suggestions',
+  'search.didYouMean': 'Did you mean:',
+
+  'embed.loadFailed': 'The rural area list could not be loaded.',
+  'embed.shown': 'Showing the first {shown} of {count} records',
+  'embed.openFull': 'Open in the full list',
+
+  'query.error.tirnak-kapanmadi': 'The quotation mark is not closed.',
+  'query.error.bos-deger': 'Type the value to search for after "{field}:".',
+  'query.error.bilinmeyen-alan': '"{field}" is not a known field; use il, ilce, belediye, mahalle or durum.',
+  'query.error.eksik-ifade': '{operator} must stand between two search terms.',
+  'query.errorAt': 'Character {position}: {message}',
+
+  'list.found': '{count} records found',
+  'list.searching': 'Searching...',
+  'list.downloading': 'Downloading data...',
+  'list.noBelediye': 'Without a municipality',
+  'list.wholeListPending': 'This view uses the data of every province; {loaded} of {total} provinces have been loaded.',
+  'list.selectIl': 'Select a province or search to see records.',
+  'list.empty': 'No records match the criteria.',
+  'list.clearFilters': 'Clear Filters',
+  'list.modeGroup': 'List view',
+  'list.mode.sayfali': 'Paged',
+  'list.mode.kaydirmali': 'Scrolling',
+  'list.modeTitle.sayfali': 'Show results page by page',
+  'list.modeTitle.kaydirmali': 'Show all results in one scrolling table',
+  'list.scrollHint': 'All results are shown in one table; switch to the "Paged" view to split them into pages.',
+  'list.pageOf': 'Page {page} of {total}',
+  'list.actionsColumn': 'Details and watch',
+  'list.filterAll': 'All',
+  'list.mahallePlaceholder': 'Search neighbourhood...',
+  'list.sortHint': 'Click to sort, Shift-click to add a further sort column',
+  'list.loadedLabel': 'Loaded list ({date})',
+  'list.importedLabel': '{file} (imported, not saved)',
+
+  'row.details': '{name} details',
+  'row.watch': 'Watch {name}',
+  'row.watchAdd': 'Add to watchlist',
+  'row.watchRemove': 'Remove from watchlist',
+  'row.print': 'Print status certificate for {name}',
+  'row.printTitle': 'Print status certificate / PDF',
+  'row.notSpecified': 'Not specified',
+  'row.datasetWide': '{date} (whole list)',
+  'row.noDetails': 'No settlement-specific details have been published for this record; its status is based on the TÜİK population data dated {date} that applies to the whole list.',
+
+  'export.button': 'Export',
+  'export.print': 'Print / PDF Report',
+  'export.count': 'All {count} records are exported.',
+  'print.confirm': 'The report of {count} records will span many pages and may take a while to prepare. Continue?',
+
+  'status.kirsal': 'Rural area',
+  'status.kirsalDegil': 'Not a rural area',
+  'severity.hata': 'Error',
+  'severity.uyari': 'Warning',
+  'severity.bilgi': 'Info',
+
+  'export.downloadCsv': 'Download CSV',
+  'export.downloadXlsx': 'Download Excel',
+  'export.meta.listTitle': 'Rural Area List',
+  'export.meta.batchTitle': 'Rural Area Bulk Check Results',
+  'export.meta.diffTitle': 'Rural Area List Comparison',
+  'export.meta.dataset': 'List',
+  'export.meta.description': 'Description',
+  'export.meta.datasetDate': 'Data Date',
+  'export.meta.datasetDateValue': '{date} (TurkStat population data)',
+  'export.meta.search': 'Search',
+  'export.meta.filters': 'Filters',
+  'export.meta.noFilters': 'None',
+  'export.meta.count': 'Records',
+  'export.meta.queryCount': 'Queries',
+  'export.meta.changeCount': 'Changes',
+  'export.meta.before': 'Old List',
+  'export.meta.after': 'New List',
+  'export.meta.createdAt': 'Created',
+  'export.sheet.list': 'List',
+  'export.sheet.results': 'Results',
+  'export.sheet.changes': 'Changes',
+  'export.sheet.info': 'Info',
+  'export.col.line': 'Line',
+  'export.col.result': 'Result',
+  'export.col.matches': 'Matching Records',
+  'export.col.candidates': 'Similar Records',
+  'export.col.change': 'Change',
+  'export.col.before': 'Old {field}',
+  'export.col.after': 'New {field}',
+
+  'stats.settlements': 'Settlements',
+  'stats.total': 'Total',
+  'stats.ratio': 'Rural share',
+  'stats.activeFilters': 'Active filters:',
+  'stats.removeFilter': 'Remove {field} filter',
+  'stats.byLevel': 'By {level}',
+  'stats.chartTitle': 'Top {count} ({level}, by {column})',
+  'stats.barTitle': '{name}: {kirsal} rural, {kirsalDegil} not rural',
+  'stats.drillDown': 'Filter by these records',
+
+  'map.label': 'Map of rural area share by province',
+  'map.noRecords': 'No records in the list',
+  'map.legend': 'Share of rural settlements:',
+  'map.noData': 'No data',
+  'map.hint': 'Click a province to see its districts; pick a district to filter the list by it.',
+  'map.districts': 'Districts of {il}',
+  'map.back': 'All provinces',
+  'map.showInList': 'Show this province in the list',
+
+  'browser.empty': 'There are no records to browse.',
+  'browser.hint': 'Open a province, district and municipality to reach the neighbourhoods; click a row or press Enter to filter the list by that place.',
+  'browser.collapseAll': 'Collapse All',
+  'browser.treeLabel': 'Province, district, municipality and neighbourhood tree',
+  'browser.nodeLabel': '{level}: {name}, {kirsal} rural, {kirsalDegil} not rural',
+  'browser.noBelediye': 'No municipality given',
+
+  'watch.intro': 'The watchlist is stored on this device. Export it to share with your team and import it on other devices.',
+  'watch.imported': '{file}: {count} new entries added, notes of existing entries merged.',
+  'watch.error.gecersiz-json': 'The file is not a valid JSON file.',
+  'watch.error.takip-listesi-degil': 'The file is not a watchlist.',
+  'watch.error.surum-desteklenmiyor': 'Unsupported watchlist version: {version}',
+  'watch.settlements': 'Watched Settlements ({count})',
+  'watch.empty': 'Click the star next to a row in the list to watch a settlement.',
+  'watch.col.settlement': 'Settlement',
+  'watch.col.note': 'Note',
+  'watch.state.ayni': 'Unchanged',
+  'watch.state.degisti': 'Status Changed',
+  'watch.state.bulunamadi': 'Not in List',
+  'watch.state.yuklenmedi': 'Data Not Loaded',
+  'watch.state.baska-liste': 'Watched on Another List',
+  'watch.acknowledge': 'Mark as Seen',
+  'watch.rebase': 'Watch on This List',
+  'watch.notePlaceholder': 'Add a note...',
+  'watch.show': 'Show in List',
+  'watch.searches': 'Saved Searches ({count})',
+  'watch.currentSearch': 'Current search:',
+  'watch.wholeList': 'Whole list',
+  'watch.searchName': 'Search name',
+  'watch.searchNote': 'Note (optional)',
+  'watch.saveSearch': 'Save Search',
+  'watch.apply': 'Apply',
+  'watch.delete': 'Delete',
+
+  'batch.title': 'Batch Address Check',
+  'batch.intro': 'Type or paste one settlement per line as {columns}, or upload a CSV file with the same columns. Comma, semicolon and tab separators are supported.',
+  'batch.fileError': 'The file could not be read. Please choose a UTF-8 encoded CSV file.',
+  'batch.run': 'Check',
+  'batch.upload': 'Upload CSV',
+  'batch.status.kirsal': 'Rural area',
+  'batch.status.kirsal-degil': 'Not a rural area',
+  'batch.status.bulunamadi': 'Not found',
+  'batch.status.belirsiz': 'Ambiguous',
+  'batch.col.line': 'Line',
+  'batch.col.query': 'Settlement Entered',
+  'batch.col.result': 'Result',
+  'batch.col.matches': 'Matching / Similar Records',
+  'batch.didYouMean': 'Did you mean?',
+  'batch.noLines': 'No lines to check were found.',
+
+  'diff.title': 'Compare List Versions',
+  'diff.intro': 'Choose two versions of data.json. Records are matched by province/district/municipality/neighbourhood names; settlements whose status changed, that were added, removed or renamed are listed.',
+  'diff.side.before': 'Old List',
+  'diff.side.after': 'New List',
+  'diff.sourceRows': '{count} records',
+  'diff.sourceQuarantined': ', {count} invalid records left out',
+  'diff.removeSource': 'Clear {side} selection',
+  'diff.chooseFile': 'Choose JSON File',
+  'diff.useLoaded': 'Use Loaded List',
+  'diff.noValidRows': 'The file contains no valid records.',
+  'diff.readError': '{file} could not be read: {error}',
+  'diff.kind.kirsala-gecti': 'Became Rural',
+  'diff.kind.kirsaldan-cikti': 'No Longer Rural',
+  'diff.kind.eklendi': 'Added',
+  'diff.kind.kaldirildi': 'Removed',
+  'diff.kind.yeniden-adlandirildi': 'Name/Municipality Changed',
+  'diff.allIls': 'All Provinces',
+  'diff.textPlaceholder': 'Search district, municipality or neighbourhood...',
+  'diff.col.kind': 'Change',
+  'diff.noChanges': 'No differences were found between the two lists.',
+  'diff.noMatches': 'No changes match the criteria.',
+
+  'quality.noReport': 'There is no data quality report because sample data is shown.',
+  'quality.title': 'Data Quality Report',
+  'quality.totalRows': 'Total Records',
+  'quality.listed': 'Listed',
+  'quality.quarantined': 'Quarantined',
+  'quality.warnings': 'Warnings',
+  'quality.policy': 'Invalid records',
+  'quality.policy.karantina': 'Set them aside and list the valid records (quarantine)',
+  'quality.policy.reddet': 'Do not load the list if any record is invalid',
+  'quality.download': 'Download Report (CSV)',
+  'quality.col.row': 'Row',
+  'quality.col.severity': 'Severity',
+  'quality.col.type': 'Type',
+  'quality.col.field': 'Field',
+  'quality.col.value': 'Value',
+  'quality.col.message': 'Description',
+  'quality.truncated': 'Showing the first {shown} issues. Download the report for all of them ({total} issues).',
+  'issue.gecersiz-kayit': 'Invalid Record',
+  'issue.eksik-alan': 'Missing Field',
+  'issue.gecersiz-tip': 'Wrong Data Type',
+  'issue.bilinmeyen-durum': 'Unknown Status',
+  'issue.mukerrer': 'Duplicate Record',
+  'issue.bosluk': 'Extra Whitespace',
+  'issue.harf-buyuklugu': 'Letter Case',
+  'issue.message.kayit-nesne-degil': 'The record is not an object.',
+  'issue.message.alan-eksik': 'The {field} field is missing.',
+  'issue.message.sayi-girilmis': '{field} is entered as a number instead of text.',
+  'issue.message.metin-degil': 'The {field} field is not text.',
+  'issue.message.fazla-bosluk': '{field} has extra whitespace at the start, at the end or inside.',
+  'issue.message.buyuk-harf-degil': '{field} is not written in capitals.',
+  'issue.message.metin-girilmis': '{field} is entered as text instead of a number.',
+  'issue.message.tam-sayi-degil': '{field} must be a non-negative whole number; the value was ignored.',
+  'issue.message.detay-metin-degil': 'The {field} field is not text; the value was ignored.',
+  'issue.message.bilinmeyen-durum': 'Status must be "{kirsal}" or "{kirsalDegil}".',
+  'issue.message.mukerrer-farkli-durum': 'Same settlement as record {row}, repeated with a different status.',
+  'issue.message.mukerrer': 'Repeats record {row}.',
+
+  'import.title': 'Import from the Official List',
+  'import.intro': 'Upload the TÜİK/IPARD rural area list as {xlsx} or {csv}. The header row and columns are detected automatically; names are trimmed and upper-cased, and statuses are written as "Kırsal Alan" / "Kırsal Alan Değil". The result is downloaded as a file that can replace {target}.',
+  'import.fileError': 'The file could not be read. Please choose a list in .xlsx or .csv format.',
+  'import.reading': 'Reading...',
+  'import.chooseFile': 'Choose File',
+  'import.headerRow': 'Header Row',
+  'import.auto': 'Automatic',
+  'import.autoColumn': 'Automatic ({column})',
+  'import.column': '{field} Column',
+  'import.noColumn': 'None',
+  'import.emptyHeader': '(empty)',
+  'import.sourceRows': 'Source Rows',
+  'import.imported': 'Imported',
+  'import.skipped': 'Skipped',
+  'import.corrected': 'Corrected',
+  'import.downloadJson': 'Download data.json',
+  'import.downloadSummary': 'Download Summary (CSV)',
+  'import.preview': 'Preview in List',
+  'import.truncated': 'Showing the first {shown} rows. Download the summary for all of them ({total} rows).',
+  'import.error.missingColumns': 'These columns were not found in the header row: {columns}. Choose the column mapping by hand.',
+  'import.error.missingColumnsAt': 'These columns were not found in row {row}: {columns}. Choose the column mapping by hand.',
+  'import.skipped.kind': 'Skipped',
+  'import.skipped.bos-satir': 'Blank row.',
+  'import.skipped.tekrar-baslik': 'Repeated header row.',
+
+  'shards.title': 'Per-Province Data Package',
+  'shards.intro': 'Splits the loaded list into one file per province that stores district and municipality names only once. Put the {folder} folder of the package under {target} and the app opens without waiting for the whole list, downloading provinces as they are needed.',
+  'shards.download': 'Download Package (.zip)',
+
+  'print.source': 'Source: {source}. This printout is for information only; confirm the current list with the competent authority before applying.',
+  'print.defaultSource': 'rural area list (IPARD III) determined by TÜİK based on population data dated {date}',
+  'print.defaultList': 'IPARD III rural area list',
+  'print.dataset': 'List',
+  'print.mahalle': 'Neighbourhood / Village',
+  'print.certificate.title': 'Rural Area Status Certificate',
+  'print.certificate.subtitle': 'Status of the settlement in the list "{list}"',
+  'print.certificate.rural': 'The settlement {mahalle} ({il} / {ilce}) is within the rural area.',
+  'print.certificate.notRural': 'The settlement {mahalle} ({il} / {ilce}) is not within the rural area.',
+  'print.referenceDate': 'Data Reference Date',
+  'print.dataVersion': 'Data Version',
+  'print.queriedAt': 'Queried At',
+  'print.report.title': 'Rural Area List Report',
+  'print.report.search': 'Search',
+  'print.report.filters': 'Filters',
+  'print.report.noFilters': 'None',
+  'print.report.count': 'Record Count',
+  'print.report.countValue': '{total} ({kirsal} rural, {kirsalDegil} not rural)',
+  'print.report.dateWithVersion': '{date} (version {label})',
+
+  'pagination.previous': 'Previous page',
+  'pagination.next': 'Next page',
+  'pagination.perPage': 'Per page',
+  'pagination.perPageSuffix': '',
+  'pagination.jump': 'Go to page',
+  'pagination.go': 'Go'
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { tr, en };
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'tr', label: 'Türkçe' },
+  { id: 'en', label: 'English' }
+];
+
+// BCP 47 tags for number and date formatting. Sorting always uses Turkish collation
+// (localeCompare(..., 'tr')) since the data is Turkish whatever the interface language.
+export const LOCALE_TAGS: Record<Locale, string> = {
+  tr: 'tr-TR',
+  en: 'en-GB'
+};
+
+export const DEFAULT_LOCALE: Locale = 'tr';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(MESSAGES, value);
+
+// Splits a message into text and placeholder names: "{count} kayıt" -> ['', 'count', ' kayıt']
+// (odd indexes are placeholders). Unknown placeholders are left in the text.
+export const splitMessage = (message: string): string[] => message.split(/\{(\w+)\}/);
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  value.toLocaleString(LOCALE_TAGS[locale], options);
+
+// Number parameters are formatted for the locale ("1.234" in Turkish, "1,234" in English)
+export const translate = (locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string =>
+  splitMessage(MESSAGES[locale][key])
+    .map((part, index) => {
+      if (index % 2 === 0) return part;
+      if (!(part in params)) return `{${part}}`;
+      const value = params[part];
+      return typeof value === 'number' ? formatNumber(locale, value) : value;
+    })
+    .join('');
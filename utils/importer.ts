@@ -0,0 +1,344 @@
+import { DataQualityReport, Locale, SettlementDetailField, YerlesimYeri } from '../types';
+import { parseCsvRows, toCsv } from './csv';
+import { DETAIL_FIELDS, DURUM_VALUES } from './filters';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { normalizeTurkish } from './textUtils';
+import { issueMessage, validateDataset } from './validation';
+import { readXlsx } from './xlsxReader';
+
+/**
+ * Turns the official TÜİK/IPARD settlement list (XLSX or CSV) into data.json rows.
+ * Cells are trimmed and brought to the list's casing, durum wording is mapped to
+ * DURUM_VALUES, and the result goes through validateDataset like any other data.json.
+ * This module has no Node dependencies; it backs both the import screen and `kirsal-alan ice-aktar`.
+ */
+
+export type ImportField = keyof YerlesimYeri;
+
+export const IMPORT_FIELDS: ImportField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum', 'kod', 'nufus', 'referansTarihi', 'dayanak'];
+// Belediye is empty for settlements outside municipal borders
+const REQUIRED_FIELDS: ImportField[] = ['il', 'ilce', 'mahalle', 'durum'];
+
+// Field -> header text, column letter ("C") or NO_COLUMN chosen by the user; missing fields are detected.
+// Only il, ilçe, mahalle and durum are required; the detail columns are read when present.
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+// Mapping value that leaves a field out, e.g. when a detail column is detected wrongly
+export const NO_COLUMN = '-';
+
+// Header spellings seen in the published lists, compared after normalizeHeader
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  il: ['il', 'il adi', 'ili', 'sehir'],
+  ilce: ['ilce', 'ilce adi', 'ilcesi'],
+  belediye: ['belediye', 'belediye adi', 'belediyesi', 'bagli oldugu belediye'],
+  mahalle: ['mahalle', 'mahalle adi', 'koy', 'mahalle koy', 'koy mahalle', 'mahalle koy adi', 'yerlesim yeri', 'yerlesim yeri adi'],
+  durum: ['durum', 'durumu', 'kirsal alan', 'kirsal alan durumu', 'kirsal durum', 'statu', 'statusu'],
+  kod: ['kod', 'yerlesim kodu', 'yerlesim yeri kodu', 'mahalle kodu', 'koy kodu', 'uavt kodu', 'tuik kodu'],
+  nufus: ['nufus', 'nufusu', 'toplam nufus', 'nufus sayisi'],
+  referansTarihi: ['referans tarihi', 'nufus tarihi', 'veri tarihi', 'tarih'],
+  dayanak: ['dayanak', 'hukuki dayanak', 'yasal dayanak', 'mevzuat', 'gerekce']
+};
+
+// The official lists start with a title block; the header is searched for in the first rows
+export const HEADER_SEARCH_ROWS = 20;
+
+const DURUM_ALIASES: Record<string, string> = {
+  'kirsal alan': DURUM_VALUES[0],
+  'kirsal': DURUM_VALUES[0],
+  'kirsal alan degil': DURUM_VALUES[1],
+  'kirsal degil': DURUM_VALUES[1],
+  'kentsel': DURUM_VALUES[1],
+  'kentsel alan': DURUM_VALUES[1]
+};
+
+// Mahalle suffix spellings -> the form used in data.json ("BÜYÜKÇILDIRIM Mahallesi" -> "BÜYÜKÇILDIRIM Mah.")
+const MAHALLE_SUFFIXES: Record<string, string> = {
+  'mah': 'Mah.',
+  'mah.': 'Mah.',
+  'mh': 'Mah.',
+  'mh.': 'Mah.',
+  'mahalle': 'Mah.',
+  'mahallesi': 'Mah.',
+  'koy': 'Köyü',
+  'koyu': 'Köyü',
+  'beldesi': 'Beldesi'
+};
+
+export type ImportSkipReason = 'bos-satir' | 'tekrar-baslik';
+
+export interface ImportSkippedRow {
+  // Spreadsheet row number
+  row: number;
+  reason: ImportSkipReason;
+}
+
+export interface ImportResult {
+  data: YerlesimYeri[];
+  // Spreadsheet row number of the header
+  headerRow: number;
+  // Field -> zero-based column, -1 when the sheet has no such column
+  columns: Record<ImportField, number>;
+  // Rows after the header, including skipped ones
+  sourceRows: number;
+  skipped: ImportSkippedRow[];
+  // Rows where trimming or casing changed at least one cell
+  corrected: number;
+  // Validation of the normalized rows; row numbers refer to the spreadsheet
+  report: DataQualityReport;
+}
+
+const missingColumnsMessage = (locale: Locale, missing: ImportField[], headerRow?: number): string => {
+  const columns = missing.map(field => translate(locale, `field.${field}`)).join(', ');
+  return headerRow
+    ? translate(locale, 'import.error.missingColumnsAt', { row: String(headerRow), columns })
+    : translate(locale, 'import.error.missingColumns', { columns });
+};
+
+// The header could not be found. The message is Turkish for the CLI; see importErrorMessage
+export class ImportError extends Error {
+  missing: ImportField[];
+  // 1-based row the header was looked for in, when it was chosen by the user
+  headerRow?: number;
+
+  constructor(missing: ImportField[], headerRow?: number) {
+    super(missingColumnsMessage(DEFAULT_LOCALE, missing, headerRow));
+    this.name = 'ImportError';
+    this.missing = missing;
+    this.headerRow = headerRow;
+  }
+}
+
+export const importErrorMessage = (locale: Locale, err: ImportError): string =>
+  missingColumnsMessage(locale, err.missing, err.headerRow);
+
+export const normalizeHeader = (text: string): string =>
+  normalizeTurkish(text).replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "A" -> 0, "AB" -> 27; null for anything that is not a column letter
+const parseColumnLetter = (text: string): number | null => {
+  if (!/^[A-Z]{1,3}$/.test(text)) return null;
+  let index = 0;
+  for (const char of text) index = index * 26 + char.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+export const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+const collapseSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const upperTr = (text: string) => text.toLocaleUpperCase('tr-TR');
+
+export const normalizeMahalle = (text: string): string => {
+  const value = collapseSpaces(text);
+  const lastSpace = value.lastIndexOf(' ');
+  if (lastSpace === -1) return upperTr(value);
+  const suffix = MAHALLE_SUFFIXES[normalizeTurkish(value.slice(lastSpace + 1))];
+  return suffix ? `${upperTr(value.slice(0, lastSpace))} ${suffix}` : upperTr(value);
+};
+
+export const normalizeDurum = (text: string): string => {
+  const value = collapseSpaces(text);
+  return DURUM_ALIASES[normalizeHeader(value)] || value;
+};
+
+// Date-formatted Excel cells arrive as day serials counted from 30.12.1899
+const normalizeDate = (text: string): string => {
+  const value = collapseSpaces(text);
+  if (!/^\d{5}$/.test(value)) return value;
+  const date = new Date(Date.UTC(1899, 11, 30) + Number(value) * 86400000);
+  return [date.getUTCDate(), date.getUTCMonth() + 1].map(part => String(part).padStart(2, '0')).join('.') + `.${date.getUTCFullYear()}`;
+};
+
+const NORMALIZERS: Record<ImportField, (text: string) => string> = {
+  il: text => upperTr(collapseSpaces(text)),
+  ilce: text => upperTr(collapseSpaces(text)),
+  belediye: text => upperTr(collapseSpaces(text)),
+  mahalle: normalizeMahalle,
+  durum: normalizeDurum,
+  kod: collapseSpaces,
+  // "1.234" and "1 234" are thousands separators in the published lists
+  nufus: text => collapseSpaces(text).replace(/^(\d{1,3})([. ]\d{3})+$/, match => match.replace(/[. ]/g, '')),
+  referansTarihi: normalizeDate,
+  dayanak: collapseSpaces
+};
+
+const matchHeader = (row: string[], mapping: ImportMapping): Record<ImportField, number> => {
+  const header = row.map(cell => normalizeHeader(cell || ''));
+  const columns = {} as Record<ImportField, number>;
+
+  IMPORT_FIELDS.forEach(field => {
+    const chosen = mapping[field]?.trim();
+    if (chosen === NO_COLUMN) {
+      columns[field] = -1;
+    } else if (chosen) {
+      const letter = parseColumnLetter(chosen);
+      columns[field] = letter !== null && !header.includes(normalizeHeader(chosen)) ? letter : header.indexOf(normalizeHeader(chosen));
+    } else {
+      columns[field] = header.findIndex(cell => HEADER_ALIASES[field].includes(cell));
+    }
+  });
+  return columns;
+};
+
+/**
+ * Finds the header row within the first rows of the sheet: the first row where every
+ * required field resolves to a column. A 1-based headerRow skips the search.
+ * Returns the header's zero-based index and the columns.
+ */
+export const detectHeader = (
+  rows: string[][],
+  mapping: ImportMapping = {},
+  headerRow?: number
+): { index: number; columns: Record<ImportField, number> } => {
+  let best: { index: number; columns: Record<ImportField, number>; found: number } | null = null;
+  const [first, last] = headerRow ? [headerRow - 1, headerRow] : [0, Math.min(rows.length, HEADER_SEARCH_ROWS)];
+
+  for (let index = first; index < last; index++) {
+    const columns = matchHeader(rows[index] || [], mapping);
+    const found = REQUIRED_FIELDS.filter(field => columns[field] !== -1).length;
+    if (found === REQUIRED_FIELDS.length) return { index, columns };
+    if (!best || found > best.found) best = { index, columns, found };
+  }
+
+  throw new ImportError(REQUIRED_FIELDS.filter(field => !best || best.columns[field] === -1), headerRow);
+};
+
+/**
+ * Converts sheet rows into validated settlements. Blank rows and repeated header rows
+ * (common when the list is pasted together per il) are skipped and listed in the result.
+ */
+export const importRows = (rows: string[][], mapping: ImportMapping = {}, headerRow?: number): ImportResult => {
+  const { index: headerIndex, columns } = detectHeader(rows, mapping, headerRow);
+  const headerKey = (rows[headerIndex] || []).map(cell => normalizeHeader(cell || '')).join('|');
+
+  const skipped: ImportSkippedRow[] = [];
+  const candidates: Record<string, string | number>[] = [];
+  const rowNumbers: number[] = [];
+  let corrected = 0;
+  let sourceRows = 0;
+
+  // forEach passes over the holes readCsvRows leaves for the extra lines of multi-line cells
+  rows.slice(headerIndex + 1).forEach((cells, offset) => {
+    const row = headerIndex + offset + 2;
+    sourceRows++;
+    if (!cells || cells.every(cell => !cell || !cell.trim())) {
+      skipped.push({ row, reason: 'bos-satir' });
+      return;
+    }
+    if (cells.map(cell => normalizeHeader(cell || '')).join('|') === headerKey) {
+      skipped.push({ row, reason: 'tekrar-baslik' });
+      return;
+    }
+
+    const item: Record<string, string | number> = {};
+    let changed = false;
+    IMPORT_FIELDS.forEach(field => {
+      const raw = columns[field] >= 0 ? cells[columns[field]] || '' : '';
+      const value = NORMALIZERS[field](raw);
+      if (value !== raw) changed = true;
+      // Detail fields are left out when empty so the output matches lists without them
+      if (DETAIL_FIELDS.includes(field as SettlementDetailField)) {
+        if (value) item[field] = field === 'nufus' && /^\d+$/.test(value) ? Number(value) : value;
+      } else {
+        item[field] = value;
+      }
+    });
+
+    if (changed) corrected++;
+    candidates.push(item);
+    rowNumbers.push(row);
+  });
+
+  const { data, report } = validateDataset(candidates, rowNumbers);
+
+  return {
+    data,
+    headerRow: headerIndex + 1,
+    columns,
+    sourceRows,
+    skipped,
+    corrected,
+    report
+  };
+};
+
+// Excel on Turkish Windows saves CSV as windows-1254 unless UTF-8 is chosen explicitly
+const decodeText = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1254').decode(bytes);
+  }
+};
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+// CSV rows placed on the line they start on, like the rows of a sheet, so row numbers match the
+// file. Blank lines stay empty rows; the extra lines of a multi-line cell are left as holes in the
+// array, so they are neither imported nor reported as blank rows
+const readCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  parseCsvRows(text).forEach(({ line, endLine, cells }) => {
+    while (rows.length < line - 1) rows.push([]);
+    rows.push(cells);
+    rows.length = endLine;
+  });
+  return rows;
+};
+
+// Reads an uploaded .xlsx or .csv into sheet rows; the format is detected from the content
+export const readSpreadsheet = async (bytes: Uint8Array): Promise<string[][]> => {
+  if (isZip(bytes)) return readXlsx(bytes);
+  return readCsvRows(decodeText(bytes));
+};
+
+export const importSpreadsheet = async (bytes: Uint8Array, mapping: ImportMapping = {}, headerRow?: number): Promise<ImportResult> =>
+  importRows(await readSpreadsheet(bytes), mapping, headerRow);
+
+// data.json with one record per line, so dataset updates produce readable diffs
+export const serializeDataset = (data: YerlesimYeri[]): string =>
+  `[\n${data.map(item => `  ${JSON.stringify(item)}`).join(',\n')}\n]\n`;
+
+// Skipped rows and validation issues as one list, ordered by spreadsheet row.
+// Kind, field and message are written in the given language.
+export interface ImportSummaryRow {
+  row: number;
+  kind: string;
+  severity: 'hata' | 'uyari' | 'bilgi';
+  field: string;
+  value: string;
+  message: string;
+}
+
+export const importSummaryRows = (result: ImportResult, locale: Locale): ImportSummaryRow[] => [
+  ...result.skipped.map((entry): ImportSummaryRow => ({
+    row: entry.row,
+    kind: translate(locale, 'import.skipped.kind'),
+    severity: 'bilgi',
+    field: '',
+    value: '',
+    message: translate(locale, `import.skipped.${entry.reason}`)
+  })),
+  ...result.report.issues.map((issue): ImportSummaryRow => ({
+    row: issue.row,
+    kind: translate(locale, `issue.${issue.type}`),
+    severity: issue.severity,
+    field: issue.field ? translate(locale, `field.${issue.field}`) : '',
+    value: issue.value || '',
+    message: issueMessage(locale, issue)
+  }))
+].sort((a, b) => a.row - b.row);
+
+export const importSummaryCsv = (result: ImportResult, locale: Locale): string =>
+  toCsv([
+    (['row', 'severity', 'type', 'field', 'value', 'message'] as const).map(column => translate(locale, `quality.col.${column}`)),
+    ...importSummaryRows(result, locale).map(entry => [
+      entry.row, translate(locale, `severity.${entry.severity}`), entry.kind, entry.field, entry.value, entry.message
+    ])
+  ]);
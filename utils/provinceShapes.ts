@@ -0,0 +1,109 @@
+import { cities } from 'turkey-map-react/lib/data';
+import { normalizeTurkish } from './textUtils';
+
+export interface ProvinceShape {
+  plaka: number;
+  il: string;
+  // SVG path of the provincial boundary in MAP_VIEWBOX coordinates
+  path: string;
+}
+
+// Province names as written in the list, by licence plate code
+const PROVINCE_NAMES: { plaka: number; il: string }[] = [
+  { plaka: 1, il: 'ADANA' },
+  { plaka: 2, il: 'ADIYAMAN' },
+  { plaka: 3, il: 'AFYONKARAHİSAR' },
+  { plaka: 4, il: 'AĞRI' },
+  { plaka: 5, il: 'AMASYA' },
+  { plaka: 6, il: 'ANKARA' },
+  { plaka: 7, il: 'ANTALYA' },
+  { plaka: 8, il: 'ARTVİN' },
+  { plaka: 9, il: 'AYDIN' },
+  { plaka: 10, il: 'BALIKESİR' },
+  { plaka: 11, il: 'BİLECİK' },
+  { plaka: 12, il: 'BİNGÖL' },
+  { plaka: 13, il: 'BİTLİS' },
+  { plaka: 14, il: 'BOLU' },
+  { plaka: 15, il: 'BURDUR' },
+  { plaka: 16, il: 'BURSA' },
+  { plaka: 17, il: 'ÇANAKKALE' },
+  { plaka: 18, il: 'ÇANKIRI' },
+  { plaka: 19, il: 'ÇORUM' },
+  { plaka: 20, il: 'DENİZLİ' },
+  { plaka: 21, il: 'DİYARBAKIR' },
+  { plaka: 22, il: 'EDİRNE' },
+  { plaka: 23, il: 'ELAZIĞ' },
+  { plaka: 24, il: 'ERZİNCAN' },
+  { plaka: 25, il: 'ERZURUM' },
+  { plaka: 26, il: 'ESKİŞEHİR' },
+  { plaka: 27, il: 'GAZİANTEP' },
+  { plaka: 28, il: 'GİRESUN' },
+  { plaka: 29, il: 'GÜMÜŞHANE' },
+  { plaka: 30, il: 'HAKKARİ' },
+  { plaka: 31, il: 'HATAY' },
+  { plaka: 32, il: 'ISPARTA' },
+  { plaka: 33, il: 'MERSİN' },
+  { plaka: 34, il: 'İSTANBUL' },
+  { plaka: 35, il: 'İZMİR' },
+  { plaka: 36, il: 'KARS' },
+  { plaka: 37, il: 'KASTAMONU' },
+  { plaka: 38, il: 'KAYSERİ' },
+  { plaka: 39, il: 'KIRKLARELİ' },
+  { plaka: 40, il: 'KIRŞEHİR' },
+  { plaka: 41, il: 'KOCAELİ' },
+  { plaka: 42, il: 'KONYA' },
+  { plaka: 43, il: 'KÜTAHYA' },
+  { plaka: 44, il: 'MALATYA' },
+  { plaka: 45, il: 'MANİSA' },
+  { plaka: 46, il: 'KAHRAMANMARAŞ' },
+  { plaka: 47, il: 'MARDİN' },
+  { plaka: 48, il: 'MUĞLA' },
+  { plaka: 49, il: 'MUŞ' },
+  { plaka: 50, il: 'NEVŞEHİR' },
+  { plaka: 51, il: 'NİĞDE' },
+  { plaka: 52, il: 'ORDU' },
+  { plaka: 53, il: 'RİZE' },
+  { plaka: 54, il: 'SAKARYA' },
+  { plaka: 55, il: 'SAMSUN' },
+  { plaka: 56, il: 'SİİRT' },
+  { plaka: 57, il: 'SİNOP' },
+  { plaka: 58, il: 'SİVAS' },
+  { plaka: 59, il: 'TEKİRDAĞ' },
+  { plaka: 60, il: 'TOKAT' },
+  { plaka: 61, il: 'TRABZON' },
+  { plaka: 62, il: 'TUNCELİ' },
+  { plaka: 63, il: 'ŞANLIURFA' },
+  { plaka: 64, il: 'UŞAK' },
+  { plaka: 65, il: 'VAN' },
+  { plaka: 66, il: 'YOZGAT' },
+  { plaka: 67, il: 'ZONGULDAK' },
+  { plaka: 68, il: 'AKSARAY' },
+  { plaka: 69, il: 'BAYBURT' },
+  { plaka: 70, il: 'KARAMAN' },
+  { plaka: 71, il: 'KIRIKKALE' },
+  { plaka: 72, il: 'BATMAN' },
+  { plaka: 73, il: 'ŞIRNAK' },
+  { plaka: 74, il: 'BARTIN' },
+  { plaka: 75, il: 'ARDAHAN' },
+  { plaka: 76, il: 'IĞDIR' },
+  { plaka: 77, il: 'YALOVA' },
+  { plaka: 78, il: 'KARABÜK' },
+  { plaka: 79, il: 'KİLİS' },
+  { plaka: 80, il: 'OSMANİYE' },
+  { plaka: 81, il: 'DÜZCE' }
+];
+
+/**
+ * Boundaries of the 81 provinces, from the SVG outlines bundled with turkey-map-react (MIT)
+ * and matched to the list's names by plate code, so the map works offline.
+ */
+export const PROVINCE_SHAPES: ProvinceShape[] = PROVINCE_NAMES.flatMap(({ plaka, il }) => {
+  const city = cities.find(entry => entry.plateNumber === plaka);
+  return city ? [{ plaka, il, path: city.path }] : [];
+});
+
+// Extent of the outlines with a small margin
+export const MAP_VIEWBOX = { x: 12, y: 134, width: 1027, height: 464 };
+
+// Key for matching il names from the dataset regardless of casing and diacritics
+export const provinceKey = (il: string): string => normalizeTurkish(il.trim());
@@ -0,0 +1,405 @@
+import { FacetKey, FacetValue, ParsedQuery, SearchQuery, SearchResult, SearchSuggestion, SettlementField, YerlesimYeri } from '../types';
+import { normalizeTurkish } from './textUtils';
+import { PreparedQuery, levenshtein, normalizeSettlementName, prepareQuery, scoreMatch } from './fuzzyMatch';
+import { tryParseSearchQuery } from './searchQuery';
+import { parseFilterValue } from './filters';
+
+export const FACET_KEYS: FacetKey[] = ['il', 'ilce', 'belediye', 'durum'];
+
+type FieldKey = SettlementField;
+// Top down, so a key's position is also the suggestion depth
+const NAME_KEYS: FieldKey[] = ['il', 'ilce', 'belediye', 'mahalle'];
+// Score given to rows whose durum contains the search term
+const DURUM_SCORE = 3;
+// Suggestions are names that start with the term or have a word starting with it (see scoreMatch)
+const SUGGESTION_SCORE = 2;
+const SUGGESTIONS_PER_LEVEL = 5;
+const MAX_CORRECTIONS = 5;
+
+/**
+ * Per-column index. Each distinct value is stored and normalized once, rows only keep a value id,
+ * so matching work scales with the number of distinct names instead of the number of rows.
+ */
+interface FieldIndex {
+  normalize: (text: string) => string;
+  values: string[];
+  normalized: string[];
+  valueIds: Map<string, number>;
+  // Row index -> value id
+  rowValues: Int32Array;
+  // Value ids ordered by normalized text, for prefix lookup
+  sortedIds: number[];
+  // Value ids in Turkish alphabetical order of the original text, for dropdown options
+  collatedIds: number[];
+  // Value id -> position in collatedIds, for sorting rows
+  collationRanks: Int32Array;
+  // Trigram -> value ids containing it, for substring lookup
+  trigrams: Map<string, number[]>;
+}
+
+const trigramsOf = (text: string): Set<string> => {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    grams.add(text.slice(i, i + 3));
+  }
+  return grams;
+};
+
+const buildFieldIndex = (data: YerlesimYeri[], key: FieldKey, normalize: (text: string) => string): FieldIndex => {
+  const values: string[] = [];
+  const valueIds = new Map<string, number>();
+  const rowValues = new Int32Array(data.length);
+
+  data.forEach((item, row) => {
+    const value = item[key];
+    let id = valueIds.get(value);
+    if (id === undefined) {
+      id = values.length;
+      values.push(value);
+      valueIds.set(value, id);
+    }
+    rowValues[row] = id;
+  });
+
+  const normalized = values.map(normalize);
+
+  const trigrams = new Map<string, number[]>();
+  normalized.forEach((text, id) => {
+    trigramsOf(text).forEach(gram => {
+      const list = trigrams.get(gram);
+      if (list) list.push(id);
+      else trigrams.set(gram, [id]);
+    });
+  });
+
+  const ids = values.map((_, id) => id);
+  const sortedIds = [...ids].sort((a, b) => (normalized[a] < normalized[b] ? -1 : normalized[a] > normalized[b] ? 1 : 0));
+  const collatedIds = [...ids].sort((a, b) => values[a].localeCompare(values[b], 'tr'));
+  const collationRanks = new Int32Array(values.length);
+  collatedIds.forEach((id, rank) => {
+    collationRanks[id] = rank;
+  });
+
+  return { normalize, values, normalized, valueIds, rowValues, sortedIds, collatedIds, collationRanks, trigrams };
+};
+
+// Value ids whose normalized text starts with the (already normalized) prefix
+const prefixLookup = (field: FieldIndex, prefix: string): number[] => {
+  const { sortedIds, normalized } = field;
+
+  let low = 0;
+  let high = sortedIds.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (normalized[sortedIds[mid]] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const result: number[] = [];
+  for (let i = low; i < sortedIds.length && normalized[sortedIds[i]].startsWith(prefix); i++) {
+    result.push(sortedIds[i]);
+  }
+  return result;
+};
+
+// Value ids whose normalized text contains the (already normalized) text
+const substringLookup = (field: FieldIndex, text: string): number[] => {
+  if (text.length < 3) {
+    const result: number[] = [];
+    field.normalized.forEach((value, id) => {
+      if (value.includes(text)) result.push(id);
+    });
+    return result;
+  }
+
+  // Start from the rarest trigram and verify the candidates
+  let smallest: number[] | undefined;
+  for (const gram of trigramsOf(text)) {
+    const list = field.trigrams.get(gram);
+    if (!list) return [];
+    if (!smallest || list.length < smallest.length) smallest = list;
+  }
+  return (smallest || []).filter(id => field.normalized[id].includes(text));
+};
+
+// Match score per value id (see scoreMatch), -1 where the value doesn't match
+const scoreField = (field: FieldIndex, query: PreparedQuery): Int8Array => {
+  const scores = new Int8Array(field.values.length).fill(-1);
+  if (!query.text) return scores.fill(0);
+
+  substringLookup(field, query.text).forEach(id => {
+    scores[id] = scoreMatch(query, field.normalized[id]) as number;
+  });
+
+  if (query.maxEdits > 0) {
+    field.normalized.forEach((value, id) => {
+      if (scores[id] !== -1) return;
+      const score = scoreMatch(query, value);
+      if (score !== null) scores[id] = score;
+    });
+  }
+
+  return scores;
+};
+
+export interface SearchIndex {
+  size: number;
+  query: (query: SearchQuery) => SearchResult;
+  // Distinct values of a column starting with the given text, in Turkish alphabetical order
+  prefix: (key: FieldKey, text: string, limit?: number) => string[];
+}
+
+/**
+ * Builds the search index for a dataset. Runs inside the search worker,
+ * or on the main thread when workers are not available.
+ */
+export const createSearchIndex = (data: YerlesimYeri[]): SearchIndex => {
+  const fields = {
+    il: buildFieldIndex(data, 'il', normalizeSettlementName),
+    ilce: buildFieldIndex(data, 'ilce', normalizeSettlementName),
+    belediye: buildFieldIndex(data, 'belediye', normalizeSettlementName),
+    mahalle: buildFieldIndex(data, 'mahalle', normalizeSettlementName),
+    durum: buildFieldIndex(data, 'durum', normalizeTurkish)
+  } as Record<FieldKey, FieldIndex>;
+
+  // Best score of the global search term per row, -1 if the row doesn't match
+  const scoreSearch = (searchTerm: string): Int8Array => {
+    const prepared = prepareQuery(searchTerm);
+    const durumQuery = normalizeTurkish(searchTerm).trim();
+    const nameScores = NAME_KEYS.map(key => scoreField(fields[key], prepared));
+    // Status is matched as a plain substring, without typo tolerance (names are still scored
+    // fuzzily against the same term); a status match ranks after close name matches
+    const durumMatches = fields.durum.normalized.map(value => value.includes(durumQuery));
+
+    const scores = new Int8Array(data.length);
+    for (let row = 0; row < data.length; row++) {
+      let best = -1;
+      for (let k = 0; k < NAME_KEYS.length; k++) {
+        const score = nameScores[k][fields[NAME_KEYS[k]].rowValues[row]];
+        if (score >= 0 && (best < 0 || score < best)) best = score;
+      }
+      if (durumMatches[fields.durum.rowValues[row]] && (best < 0 || best > DURUM_SCORE)) {
+        best = DURUM_SCORE;
+      }
+      scores[row] = best;
+    }
+    return scores;
+  };
+
+  // Value ids of a column matched by one advanced query term, as a lookup table
+  const termValues = (key: FieldKey, text: string): Uint8Array => {
+    const field = fields[key];
+    const marks = new Uint8Array(field.values.length);
+    let ids = substringLookup(field, field.normalize(text));
+    // Statuses contain each other ("Kırsal Alan" / "Kırsal Alan Değil"): the shortest match wins
+    if (key === 'durum' && ids.length > 1) {
+      const shortest = Math.min(...ids.map(id => field.normalized[id].length));
+      ids = ids.filter(id => field.normalized[id].length === shortest);
+    }
+    ids.forEach(id => {
+      marks[id] = 1;
+    });
+    return marks;
+  };
+
+  // Statuses containing the text, as matched by the plain search
+  const literalDurum = (text: string): Uint8Array => {
+    const normalized = normalizeTurkish(text).trim();
+    return Uint8Array.from(fields.durum.normalized, value => (value.includes(normalized) ? 1 : 0));
+  };
+
+  // Advanced query: 0 for matching rows, -1 otherwise. A term without a field matches any column.
+  const matchQuery = ({ clauses }: ParsedQuery): Int8Array => {
+    const compiled = clauses.map(terms => terms.map(term => {
+      const keys: FieldKey[] = term.field ? [term.field] : [...NAME_KEYS, 'durum'];
+      // Unscoped terms match statuses literally, like the plain search
+      const lookups = keys.map(key => ({
+        rowValues: fields[key].rowValues,
+        marks: term.field || key !== 'durum' ? termValues(key, term.text) : literalDurum(term.text)
+      }));
+      return { lookups, negated: term.negated };
+    }));
+
+    const scores = new Int8Array(data.length).fill(-1);
+    for (let row = 0; row < data.length; row++) {
+      const matches = compiled.some(terms => terms.every(({ lookups, negated }) =>
+        lookups.some(({ rowValues, marks }) => marks[rowValues[row]] === 1) !== negated
+      ));
+      if (matches) scores[row] = 0;
+    }
+    return scores;
+  };
+
+  // Places whose name starts with the term, grouped by their full il/ilçe/... path, closest first
+  const suggest = (searchTerm: string): SearchSuggestion[] => {
+    const prepared = prepareQuery(searchTerm);
+    if (!prepared.text) return [];
+
+    const levelScores = NAME_KEYS.map(key => {
+      const field = fields[key];
+      const scores = new Int8Array(field.values.length).fill(-1);
+      substringLookup(field, prepared.text).forEach(id => {
+        const score = scoreMatch(prepared, field.normalized[id]);
+        if (score !== null && score <= SUGGESTION_SCORE && field.values[id] !== '') scores[id] = score;
+      });
+      return scores;
+    });
+
+    const groups = NAME_KEYS.map(() => new Map<string, { ids: number[]; score: number; count: number }>());
+    for (let row = 0; row < data.length; row++) {
+      for (let depth = 0; depth < NAME_KEYS.length; depth++) {
+        const score = levelScores[depth][fields[NAME_KEYS[depth]].rowValues[row]];
+        if (score < 0) continue;
+        const ids = NAME_KEYS.slice(0, depth + 1).map(key => fields[key].rowValues[row]);
+        const pathKey = ids.join(',');
+        const group = groups[depth].get(pathKey);
+        if (group) group.count++;
+        else groups[depth].set(pathKey, { ids, score, count: 1 });
+      }
+    }
+
+    return groups.flatMap((level, depth) => {
+      // Turkish order of the name, then of its parents for a name found in several places
+      const order = [depth, ...Array.from({ length: depth }, (_, d) => d)];
+      return Array.from(level.values())
+        .sort((a, b) => {
+          if (a.score !== b.score) return a.score - b.score;
+          for (const d of order) {
+            const ranks = fields[NAME_KEYS[d]].collationRanks;
+            if (ranks[a.ids[d]] !== ranks[b.ids[d]]) return ranks[a.ids[d]] - ranks[b.ids[d]];
+          }
+          return 0;
+        })
+        .slice(0, SUGGESTIONS_PER_LEVEL)
+        .map(({ ids, count }) => ({
+          depth,
+          values: ids.map((id, d) => fields[NAME_KEYS[d]].values[id]),
+          count
+        }));
+    });
+  };
+
+  // Names closest to a term that matched nothing, even with the typos the search allows
+  const correct = (searchTerm: string): string[] => {
+    const text = normalizeSettlementName(searchTerm);
+    if (text.length < 3) return [];
+    const limit = Math.max(2, Math.ceil(text.length * 0.4));
+
+    const closest = new Map<string, { value: string; distance: number }>();
+    NAME_KEYS.forEach(key => {
+      const field = fields[key];
+      field.normalized.forEach((value, id) => {
+        if (!value || Math.abs(value.length - text.length) > limit) return;
+        const distance = levenshtein(text, value);
+        const known = closest.get(value);
+        if (distance <= limit && (!known || distance < known.distance)) {
+          closest.set(value, { value: field.values[id], distance });
+        }
+      });
+    });
+
+    return Array.from(closest.values())
+      .sort((a, b) => a.distance - b.distance || a.value.localeCompare(b.value, 'tr'))
+      .slice(0, MAX_CORRECTIONS)
+      .map(({ value }) => value);
+  };
+
+  // Fuzzy score of the mahalle filter per value id; an exact filter ("=AKÇA Köyü") matches one name only
+  const scoreMahalleFilter = (value: string): Int8Array => {
+    const { text, exact } = parseFilterValue(value);
+    if (!exact) return scoreField(fields.mahalle, prepareQuery(text));
+    const scores = new Int8Array(fields.mahalle.values.length).fill(-1);
+    const id = fields.mahalle.valueIds.get(text);
+    if (id !== undefined) scores[id] = 0;
+    return scores;
+  };
+
+  const query = ({ searchTerm, filters, sort = [] }: SearchQuery): SearchResult => {
+    const parsed = tryParseSearchQuery(searchTerm);
+    const searchScores = parsed ? matchQuery(parsed) : searchTerm.trim() ? scoreSearch(searchTerm) : null;
+    const mahalleScores = filters.mahalle ? scoreMahalleFilter(filters.mahalle) : null;
+
+    // -1: no filter, -2: value not in the data (nothing can match), otherwise the value id
+    const filterIds = FACET_KEYS.map(key => {
+      if (!filters[key]) return -1;
+      const id = fields[key].valueIds.get(parseFilterValue(filters[key]).text);
+      return id === undefined ? -2 : id;
+    });
+
+    const counts = FACET_KEYS.map(key => new Int32Array(fields[key].values.length));
+    const matched: { row: number; mahalleScore: number; searchScore: number }[] = [];
+
+    for (let row = 0; row < data.length; row++) {
+      const searchScore = searchScores ? searchScores[row] : 0;
+      if (searchScore < 0) continue;
+
+      const mahalleScore = mahalleScores ? mahalleScores[fields.mahalle.rowValues[row]] : 0;
+
+      // A row counts towards a facet if it passes every filter except that facet's own
+      let failures = mahalleScore < 0 ? 1 : 0;
+      let failedFacet = -1;
+      for (let f = 0; f < FACET_KEYS.length && failures < 2; f++) {
+        const filterId = filterIds[f];
+        if (filterId !== -1 && fields[FACET_KEYS[f]].rowValues[row] !== filterId) {
+          failures++;
+          failedFacet = f;
+        }
+      }
+
+      if (failures === 0) {
+        matched.push({ row, mahalleScore, searchScore });
+        for (let f = 0; f < FACET_KEYS.length; f++) {
+          counts[f][fields[FACET_KEYS[f]].rowValues[row]]++;
+        }
+      } else if (failures === 1 && failedFacet !== -1) {
+        counts[failedFacet][fields[FACET_KEYS[failedFacet]].rowValues[row]]++;
+      }
+    }
+
+    // Closest mahalle filter match first, then closest search match, then file order
+    if (searchScores || mahalleScores) {
+      matched.sort((a, b) => a.mahalleScore - b.mahalleScore || a.searchScore - b.searchScore || a.row - b.row);
+    }
+
+    // Column sort in Turkish alphabetical order; the sort is stable, so ties keep the order above
+    if (sort.length > 0) {
+      const keys = sort.map(key => ({ field: fields[key.field], sign: key.direction === 'desc' ? -1 : 1 }));
+      matched.sort((a, b) => {
+        for (const { field, sign } of keys) {
+          const diff = field.collationRanks[field.rowValues[a.row]] - field.collationRanks[field.rowValues[b.row]];
+          if (diff !== 0) return sign * diff;
+        }
+        return 0;
+      });
+    }
+
+    const facets = {} as Record<FacetKey, FacetValue[]>;
+    FACET_KEYS.forEach((key, f) => {
+      const field = fields[key];
+      facets[key] = field.collatedIds
+        .filter(id => counts[f][id] > 0 && field.values[id] !== '')
+        .map(id => ({ value: field.values[id], count: counts[f][id] }));
+    });
+
+    // Both only for the plain search; the advanced syntax is typed on purpose
+    const plain = !parsed && searchScores !== null;
+    return {
+      ids: Int32Array.from(matched, ({ row }) => row),
+      facets,
+      suggestions: plain ? suggest(searchTerm) : [],
+      corrections: plain && !searchScores!.some(score => score >= 0) ? correct(searchTerm) : []
+    };
+  };
+
+  const prefix = (key: FieldKey, text: string, limit = 10): string[] => {
+    const field = fields[key];
+    const ids = prefixLookup(field, field.normalize(text));
+    return ids
+      .map(id => field.values[id])
+      .filter(value => value !== '')
+      .sort((a, b) => a.localeCompare(b, 'tr'))
+      .slice(0, limit);
+  };
+
+  return { size: data.length, query, prefix };
+};
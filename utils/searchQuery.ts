@@ -0,0 +1,129 @@
+import { Locale, ParsedQuery, QueryErrorCode, QueryTerm, SettlementField } from '../types';
+import { translate } from './i18n';
+import { normalizeTurkish } from './textUtils';
+
+// Field names accepted before ":" (compared after normalizeTurkish), including the English ones
+const FIELD_ALIASES: Record<string, SettlementField> = {
+  il: 'il',
+  ilce: 'ilce',
+  belediye: 'belediye',
+  mahalle: 'mahalle',
+  koy: 'mahalle',
+  durum: 'durum',
+  province: 'il',
+  district: 'ilce',
+  municipality: 'belediye',
+  neighbourhood: 'mahalle',
+  neighborhood: 'mahalle',
+  status: 'durum'
+};
+
+// Written in capitals so that a settlement called "Or" can still be searched
+const OR_OPERATORS = ['OR', 'VEYA'];
+
+const FIELD_PREFIX = /^(\p{L}+):/u;
+
+export class QuerySyntaxError extends Error {
+  code: QueryErrorCode;
+  // 0-based position in the search text where the problem starts
+  position: number;
+  params: Record<string, string>;
+
+  constructor(code: QueryErrorCode, position: number, params: Record<string, string> = {}) {
+    super(`${code} (${position + 1}. karakter)`);
+    this.name = 'QuerySyntaxError';
+    this.code = code;
+    this.position = position;
+    this.params = params;
+  }
+}
+
+// "3. karakter: Tırnak işareti kapatılmamış." for callers without a search box to point at
+export const querySyntaxMessage = (locale: Locale, err: QuerySyntaxError): string =>
+  translate(locale, 'query.errorAt', {
+    position: String(err.position + 1),
+    message: translate(locale, `query.error.${err.code}`, err.params)
+  });
+
+const isSpace = (char: string) => /\s/.test(char);
+
+/**
+ * Parses the advanced search syntax: field-scoped terms (il:adana, durum:kırsal), quoted
+ * phrases ("hacılı mah"), negation (-mahalle:merkez) and OR between groups of terms.
+ * Terms next to each other must all match; OR binds weakest, so `a b OR c` is (a and b) or c.
+ *
+ * Returns null for plain text without any of this syntax, which keeps the regular fuzzy
+ * search. Throws QuerySyntaxError when the syntax is used but incomplete.
+ */
+export const parseSearchQuery = (text: string): ParsedQuery | null => {
+  const clauses: QueryTerm[][] = [[]];
+  let advanced = false;
+  let orPosition = -1;
+  let i = 0;
+
+  while (i < text.length) {
+    if (isSpace(text[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    // A lone "-" (e.g. "Adana - Seyhan") is plain text, not a negation
+    const negated = text[i] === '-' && i + 1 < text.length && !isSpace(text[i + 1]);
+    if (negated) i++;
+
+    let field: SettlementField | null = null;
+    const prefix = FIELD_PREFIX.exec(text.slice(i));
+    if (prefix) {
+      field = FIELD_ALIASES[normalizeTurkish(prefix[1])] || null;
+      if (!field) throw new QuerySyntaxError('bilinmeyen-alan', i, { field: prefix[1] });
+      i += prefix[0].length;
+    }
+
+    let value: string;
+    let quoted = false;
+    if (text[i] === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end === -1) throw new QuerySyntaxError('tirnak-kapanmadi', i);
+      value = text.slice(i + 1, end);
+      quoted = true;
+      i = end + 1;
+    } else {
+      const valueStart = i;
+      while (i < text.length && !isSpace(text[i])) i++;
+      value = text.slice(valueStart, i);
+    }
+
+    if (!field && !negated && !quoted && OR_OPERATORS.includes(value)) {
+      if (clauses[clauses.length - 1].length === 0) throw new QuerySyntaxError('eksik-ifade', start, { operator: value });
+      clauses.push([]);
+      orPosition = start;
+      advanced = true;
+      continue;
+    }
+
+    if (!value.trim()) {
+      if (field) throw new QuerySyntaxError('bos-deger', start, { field: prefix![1] });
+      continue;
+    }
+
+    clauses[clauses.length - 1].push({ field, text: value.trim(), negated });
+    advanced = advanced || field !== null || negated || quoted;
+  }
+
+  if (clauses.length > 1 && clauses[clauses.length - 1].length === 0) {
+    throw new QuerySyntaxError('eksik-ifade', orPosition, { operator: text.slice(orPosition).trim() });
+  }
+
+  return advanced ? { clauses } : null;
+};
+
+// For callers that only need a usable query: syntax errors fall back to the plain-text search
+export const tryParseSearchQuery = (text: string): ParsedQuery | null => {
+  try {
+    return parseSearchQuery(text);
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return null;
+    throw err;
+  }
+};
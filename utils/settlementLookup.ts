@@ -0,0 +1,74 @@
+import { BatchStatus, YerlesimYeri } from '../types';
+import { normalizeTurkish } from './textUtils';
+import { bestScore, normalizeSettlementName, prepareQuery, scoreMatch } from './fuzzyMatch';
+import { EMPTY_FILTERS, KIRSAL_ALAN } from './filters';
+import { createSearchIndex } from './searchIndex';
+import { tryParseSearchQuery } from './searchQuery';
+
+export interface LookupQuery {
+  il: string;
+  ilce: string;
+  belediye: string;
+  mahalle: string;
+  // Free text, searched like the search box of the web app
+  text: string;
+}
+
+export const EMPTY_LOOKUP: LookupQuery = { il: '', ilce: '', belediye: '', mahalle: '', text: '' };
+
+// 0: a name equals the text, 1: a name contains it, 2: only a typo-tolerant or status match (see scoreMatch)
+const matchTier = (score: number | null): number =>
+  score === 0 ? 0 : score !== null && score < 4 ? 1 : 2;
+
+/**
+ * Single-settlement lookup used by the CLI and the HTTP API: il/ilçe/belediye must match exactly
+ * apart from case and Turkish characters, mahalle additionally ignores suffixes like "Mah." or "Köyü".
+ * Free text then narrows the remaining rows with the same index as the web app's search; plain
+ * text keeps only the closest tier, so a typo-tolerant match can't make an exact one ambiguous.
+ */
+export const findSettlements = (data: YerlesimYeri[], query: LookupQuery): YerlesimYeri[] => {
+  const il = normalizeTurkish(query.il.trim());
+  const ilce = normalizeTurkish(query.ilce.trim());
+  const belediye = normalizeTurkish(query.belediye.trim());
+  const mahalle = normalizeSettlementName(query.mahalle);
+
+  const scope = data.filter(item =>
+    (!il || normalizeTurkish(item.il) === il) &&
+    (!ilce || normalizeTurkish(item.ilce) === ilce) &&
+    (!belediye || normalizeTurkish(item.belediye) === belediye) &&
+    (!mahalle || normalizeSettlementName(item.mahalle) === mahalle)
+  );
+
+  if (!query.text.trim()) return scope;
+  const { ids } = createSearchIndex(scope).query({ searchTerm: query.text, filters: EMPTY_FILTERS });
+  const records = Array.from(ids, id => scope[id]);
+  if (tryParseSearchQuery(query.text)) return records;
+
+  const prepared = prepareQuery(query.text);
+  const tiers = records.map(item =>
+    matchTier(bestScore(prepared, [item.il, item.ilce, item.belediye, item.mahalle].map(normalizeSettlementName)))
+  );
+  const best = Math.min(...tiers);
+  return records.filter((_, i) => tiers[i] === best);
+};
+
+// Several matches are only ambiguous when their statuses disagree
+export const lookupStatus = (records: YerlesimYeri[]): BatchStatus => {
+  if (records.length === 0) return 'bulunamadi';
+  const statuses = new Set(records.map(item => item.durum));
+  if (statuses.size > 1) return 'belirsiz';
+  return records[0].durum === KIRSAL_ALAN ? 'kirsal' : 'kirsal-degil';
+};
+
+// Closest mahalle names within the il/ilçe/belediye of the query, for "did you mean" hints
+export const suggestSettlements = (data: YerlesimYeri[], query: LookupQuery, limit = 5): YerlesimYeri[] => {
+  const prepared = prepareQuery(query.mahalle || query.text);
+  if (!prepared.text) return [];
+  const scope = findSettlements(data, { ...query, mahalle: '', text: '' });
+  return scope
+    .map(item => ({ item, score: scoreMatch(prepared, normalizeSettlementName(item.mahalle)) }))
+    .filter((entry): entry is { item: YerlesimYeri; score: number } => entry.score !== null)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(entry => entry.item);
+};
@@ -0,0 +1,45 @@
+import { Filters, SettlementField, SettlementTreeNode, YerlesimYeri } from '../types';
+import { EMPTY_FILTERS, KIRSAL_ALAN, exactFilter } from './filters';
+
+// Levels of the browser, top down
+export const TREE_LEVELS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle'];
+
+/**
+ * Groups rows by the field of the given depth into child nodes, in Turkish alphabetical order.
+ * Only one level is built at a time; the browser calls this again when a node is opened.
+ */
+export const buildTreeLevel = (rows: YerlesimYeri[], depth: number, parentValues: string[] = []): SettlementTreeNode[] => {
+  const field = TREE_LEVELS[depth];
+  const groups = new Map<string, SettlementTreeNode>();
+
+  rows.forEach(item => {
+    const value = item[field];
+    let node = groups.get(value);
+    if (!node) {
+      const values = [...parentValues, value];
+      node = { id: values.join('|'), depth, values, rows: [], kirsal: 0, kirsalDegil: 0 };
+      groups.set(value, node);
+    }
+    node.rows.push(item);
+    if (item.durum === KIRSAL_ALAN) node.kirsal++;
+    else node.kirsalDegil++;
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.values[depth].localeCompare(b.values[depth], 'tr'));
+};
+
+/**
+ * Column filters selecting exactly the rows of a node in the main table (callers clear the
+ * search term); deeper levels and the status are cleared. The mahalle name and an empty belediye
+ * are matched exactly (see EXACT_PREFIX), as the plain filters would read them as a fuzzy name
+ * and as "any belediye".
+ */
+export const treeNodeFilters = (node: Pick<SettlementTreeNode, 'depth' | 'values'>): Filters => {
+  const filters: Filters = { ...EMPTY_FILTERS };
+  TREE_LEVELS.forEach((field, depth) => {
+    const value = node.values[depth];
+    if (depth > node.depth) return;
+    filters[field] = field === 'mahalle' || (field === 'belediye' && !value) ? exactFilter(value) : value;
+  });
+  return filters;
+};
@@ -0,0 +1,151 @@
+import { DatasetShard, ShardInfo, ShardManifest, YerlesimYeri } from '../types';
+import { KIRSAL_ALAN } from './filters';
+import { normalizeTurkish } from './textUtils';
+import { DataValidationError } from './validation';
+import { ZipEntry, crc32 } from './zip';
+
+export const SHARD_FORMAT = 'kirsal-alan-parcali';
+// Shards are served next to the manifest, e.g. /veri/adana-1a2b3c4d.json
+export const SHARD_BASE_URL = '/veri/';
+export const SHARD_MANIFEST_URL = `${SHARD_BASE_URL}manifest.json`;
+
+// Folder of a manifest's shard files, for manifests listed in the dataset registry
+export const shardBaseUrl = (manifestUrl: string): string => manifestUrl.slice(0, manifestUrl.lastIndexOf('/') + 1);
+
+export const isShardManifest = (raw: unknown): raw is ShardManifest => {
+  if (raw === null || typeof raw !== 'object') return false;
+  const manifest = raw as Partial<ShardManifest>;
+  return manifest.format === SHARD_FORMAT && Array.isArray(manifest.shards);
+};
+
+// String table that hands out one index per distinct value
+const createDictionary = () => {
+  const values: string[] = [];
+  const indexes = new Map<string, number>();
+  return {
+    values,
+    indexOf: (value: string) => {
+      let index = indexes.get(value);
+      if (index === undefined) {
+        index = values.length;
+        values.push(value);
+        indexes.set(value, index);
+      }
+      return index;
+    }
+  };
+};
+
+// Encodes the rows of a single il; callers group the rows beforehand
+export const encodeShard = (il: string, rows: YerlesimYeri[]): DatasetShard => {
+  const ilceler = createDictionary();
+  const belediyeler = createDictionary();
+  const durumlar = createDictionary();
+  const has = (key: keyof YerlesimYeri) => rows.some(row => row[key] !== undefined);
+
+  const shard: DatasetShard = {
+    il,
+    ilce: rows.map(row => ilceler.indexOf(row.ilce)),
+    belediye: rows.map(row => belediyeler.indexOf(row.belediye)),
+    durum: rows.map(row => durumlar.indexOf(row.durum)),
+    mahalle: rows.map(row => row.mahalle),
+    ilceler: ilceler.values,
+    belediyeler: belediyeler.values,
+    durumlar: durumlar.values
+  };
+
+  if (has('kod')) shard.kod = rows.map(row => row.kod ?? null);
+  if (has('nufus')) shard.nufus = rows.map(row => row.nufus ?? null);
+  if (has('referansTarihi')) {
+    const dates = createDictionary();
+    shard.referansTarihi = rows.map(row => (row.referansTarihi === undefined ? -1 : dates.indexOf(row.referansTarihi)));
+    shard.referansTarihleri = dates.values;
+  }
+  if (has('dayanak')) {
+    const bases = createDictionary();
+    shard.dayanak = rows.map(row => (row.dayanak === undefined ? -1 : bases.indexOf(row.dayanak)));
+    shard.dayanaklar = bases.values;
+  }
+  return shard;
+};
+
+/**
+ * Expands a shard back into YerlesimYeri rows. Only the columnar structure is checked here;
+ * field values go through validateDataset like data.json rows do.
+ */
+export const decodeShard = (raw: unknown, file: string): YerlesimYeri[] => {
+  const shard = raw as Partial<DatasetShard> | null;
+  const columns = shard ? [shard.ilce, shard.belediye, shard.durum, shard.mahalle] : [];
+  const tables = shard ? [shard.ilceler, shard.belediyeler, shard.durumlar] : [];
+
+  if (!shard || typeof shard.il !== 'string' || !columns.every(Array.isArray) || !tables.every(Array.isArray)) {
+    throw new DataValidationError('parca-bicimi', { file });
+  }
+
+  const { il, ilce, belediye, durum, mahalle, ilceler, belediyeler, durumlar } = shard as DatasetShard;
+  if (ilce.length !== mahalle.length || belediye.length !== mahalle.length || durum.length !== mahalle.length) {
+    throw new DataValidationError('parca-uzunluk', { file });
+  }
+
+  const { kod, nufus, referansTarihi, referansTarihleri, dayanak, dayanaklar } = shard as DatasetShard;
+
+  return mahalle.map((name, i) => {
+    const row: YerlesimYeri = {
+      il,
+      ilce: ilceler[ilce[i]],
+      belediye: belediyeler[belediye[i]],
+      mahalle: name,
+      durum: durumlar[durum[i]]
+    };
+    // Missing details stay absent rather than undefined-valued, like rows from data.json
+    if (kod && kod[i] != null) row.kod = kod[i] as string;
+    if (nufus && nufus[i] != null) row.nufus = nufus[i] as number;
+    if (referansTarihi && referansTarihleri && referansTarihi[i] >= 0) row.referansTarihi = referansTarihleri[referansTarihi[i]];
+    if (dayanak && dayanaklar && dayanak[i] >= 0) row.dayanak = dayanaklar[dayanak[i]];
+    return row;
+  });
+};
+
+const shardFileName = (il: string, text: string): string => {
+  const slug = normalizeTurkish(il).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'il';
+  // Content hash in the name lets the service worker cache shards forever
+  const hash = crc32(new TextEncoder().encode(text)).toString(16).padStart(8, '0');
+  return `${slug}-${hash}.json`;
+};
+
+/**
+ * Splits a list into one shard per il plus a manifest, as files for the veri/ directory.
+ * Il order follows Turkish collation so the manifest reads like the il dropdown.
+ */
+export const buildShardPackage = (data: YerlesimYeri[], datasetVersion: string): ZipEntry[] => {
+  const byIl = new Map<string, YerlesimYeri[]>();
+  data.forEach(item => {
+    const rows = byIl.get(item.il);
+    if (rows) rows.push(item);
+    else byIl.set(item.il, [item]);
+  });
+
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const shards: ShardInfo[] = [];
+
+  Array.from(byIl.keys())
+    .sort((a, b) => a.localeCompare(b, 'tr'))
+    .forEach(il => {
+      const rows = byIl.get(il) as YerlesimYeri[];
+      const text = JSON.stringify(encodeShard(il, rows));
+      const file = shardFileName(il, text);
+      entries.push({ name: `veri/${file}`, data: encoder.encode(text) });
+      shards.push({ il, file, rows: rows.length, kirsal: rows.filter(row => row.durum === KIRSAL_ALAN).length });
+    });
+
+  const manifest: ShardManifest = {
+    format: SHARD_FORMAT,
+    version: 1,
+    datasetVersion,
+    totalRows: data.length,
+    shards
+  };
+  entries.unshift({ name: 'veri/manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return entries;
+};
@@ -0,0 +1,48 @@
+import { SettlementField, SortKey } from '../types';
+
+export const SORT_FIELDS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum'];
+
+/**
+ * Next sort state after a header click.
+ * A plain click sorts by that column alone: ascending, then descending, then back to file order.
+ * A shift-click keeps the other keys and cycles this column through ascending, descending and removed.
+ */
+export const toggleSort = (sort: SortKey[], field: SettlementField, additive: boolean): SortKey[] => {
+  const current = sort.find(key => key.field === field);
+
+  if (!additive) {
+    if (sort.length === 1 && current) {
+      return current.direction === 'asc' ? [{ field, direction: 'desc' }] : [];
+    }
+    return [{ field, direction: 'asc' }];
+  }
+
+  if (!current) return [...sort, { field, direction: 'asc' }];
+  if (current.direction === 'asc') {
+    return sort.map(key => (key.field === field ? { field, direction: 'desc' } : key));
+  }
+  return sort.filter(key => key.field !== field);
+};
+
+// "il,-mahalle": comma separated fields, "-" marks descending order
+export const serializeSort = (sort: SortKey[]): string =>
+  sort.map(key => `${key.direction === 'desc' ? '-' : ''}${key.field}`).join(',');
+
+// Unknown and repeated fields are ignored
+export const parseSort = (text: string): SortKey[] => {
+  const sort: SortKey[] = [];
+  text.split(',').forEach(part => {
+    const token = part.trim();
+    const field = (token.startsWith('-') ? token.slice(1) : token) as SettlementField;
+    if (SORT_FIELDS.includes(field) && !sort.some(key => key.field === field)) {
+      sort.push({ field, direction: token.startsWith('-') ? 'desc' : 'asc' });
+    }
+  });
+  return sort;
+};
+
+// aria-sort value for a column header; only the primary key is announced as sorted
+export const ariaSort = (sort: SortKey[], field: SettlementField): 'ascending' | 'descending' | 'none' => {
+  if (sort[0]?.field !== field) return 'none';
+  return sort[0].direction === 'asc' ? 'ascending' : 'descending';
+};
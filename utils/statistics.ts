@@ -0,0 +1,53 @@
+import { Locale, StatsLevel, StatsRow, YerlesimYeri } from '../types';
+import { KIRSAL_ALAN } from './filters';
+import { DEFAULT_LOCALE, formatNumber } from './i18n';
+
+/**
+ * Counts Kırsal Alan / Kırsal Alan Değil settlements per il, ilçe or belediye.
+ * Lower levels keep their parents (an ilçe row also carries its il) since names repeat across provinces.
+ */
+export const aggregateBy = (data: YerlesimYeri[], level: StatsLevel): StatsRow[] => {
+  const groups = new Map<string, StatsRow>();
+
+  data.forEach(item => {
+    const row = {
+      il: item.il,
+      ilce: level === 'il' ? '' : item.ilce,
+      belediye: level === 'belediye' ? item.belediye : ''
+    };
+    const key = `${row.il}|${row.ilce}|${row.belediye}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { ...row, kirsal: 0, kirsalDegil: 0, total: 0, ratio: 0 };
+      groups.set(key, group);
+    }
+
+    if (item.durum === KIRSAL_ALAN) group.kirsal++;
+    else group.kirsalDegil++;
+    group.total++;
+  });
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    ratio: group.total > 0 ? group.kirsal / group.total : 0
+  }));
+};
+
+// Totals over all rows, as a single StatsRow without a place
+export const summarize = (data: YerlesimYeri[]): StatsRow => {
+  const kirsal = data.filter(item => item.durum === KIRSAL_ALAN).length;
+  return {
+    il: '',
+    ilce: '',
+    belediye: '',
+    kirsal,
+    kirsalDegil: data.length - kirsal,
+    total: data.length,
+    ratio: data.length > 0 ? kirsal / data.length : 0
+  };
+};
+
+// "%42,5" in Turkish number formatting, "42.5%" in English
+export const formatRatio = (ratio: number, locale: Locale = DEFAULT_LOCALE): string =>
+  formatNumber(locale, ratio, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
@@ -0,0 +1,73 @@
+/**
+ * Minimal ZIP reader for importing .xlsx files, the counterpart of zip.ts.
+ * Supports stored (0) and deflated (8) entries; deflate is handled by the platform's
+ * DecompressionStream, available in browsers and Node 18+.
+ */
+
+export interface UnzippedEntry {
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = (data: Uint8Array): Map<string, UnzippedEntry> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new ZipFormatError('Dosya bir ZIP/XLSX arşivi değil.');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, UnzippedEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) throw new ZipFormatError('ZIP dizini bozuk.');
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      name,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new ZipFormatError(`${name} okunamadı.`);
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const content = data.subarray(start, start + compressedSize);
+        if (method === 0) return content;
+        if (method === 8) return inflateRaw(content);
+        throw new ZipFormatError(`${name} desteklenmeyen bir sıkıştırma yöntemi kullanıyor.`);
+      }
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
@@ -0,0 +1,65 @@
+import { Filters, SortKey } from '../types';
+import { EMPTY_FILTERS } from './filters';
+import { parseSort, serializeSort } from './sorting';
+
+export interface UrlState {
+  searchTerm: string;
+  filters: Filters;
+  page: number;
+  sort: SortKey[];
+  // Id of the dataset registry list; empty for the default list
+  dataset: string;
+}
+
+// Query string keys. Filter keys are used as-is (il, ilce, belediye, mahalle, durum).
+const SEARCH_PARAM = 'q';
+const PAGE_PARAM = 'sayfa';
+const SORT_PARAM = 'sirala';
+const DATASET_PARAM = 'veri';
+
+// Rows per list page in the web app and the HTTP API
+export const DEFAULT_PAGE_SIZE = 50;
+// Choices offered by the page size selector of the web app
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+
+/**
+ * Reads search term, column filters, page number, sort order and dataset from a query string.
+ * Unknown parameters are ignored and a malformed page number falls back to 1.
+ */
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+
+  const filters = { ...EMPTY_FILTERS };
+  (Object.keys(EMPTY_FILTERS) as (keyof Filters)[]).forEach(key => {
+    filters[key] = (params.get(key) || '').trim();
+  });
+
+  const page = parseInt(params.get(PAGE_PARAM) || '', 10);
+
+  return {
+    searchTerm: params.get(SEARCH_PARAM) || '',
+    filters,
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+    sort: parseSort(params.get(SORT_PARAM) || ''),
+    dataset: (params.get(DATASET_PARAM) || '').trim()
+  };
+};
+
+/**
+ * Builds a query string (including the leading "?") from the given state.
+ * Empty values and the first page are omitted to keep links short.
+ */
+export const serializeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.dataset) params.set(DATASET_PARAM, state.dataset);
+  if (state.searchTerm) params.set(SEARCH_PARAM, state.searchTerm);
+  (Object.keys(EMPTY_FILTERS) as (keyof Filters)[]).forEach(key => {
+    if (state.filters[key]) params.set(key, state.filters[key]);
+  });
+  if (state.page > 1) params.set(PAGE_PARAM, String(state.page));
+  if (state.sort.length > 0) params.set(SORT_PARAM, serializeSort(state.sort));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
@@ -0,0 +1,201 @@
+import { DataErrorCode, DataIssue, DataQualityReport, Locale, SettlementField, YerlesimYeri } from '../types';
+import { DETAIL_FIELDS, DURUM_VALUES } from './filters';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { normalizeTurkish } from './textUtils';
+
+const FIELDS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle', 'durum'];
+// Belediye is empty for settlements outside municipal borders
+const OPTIONAL_FIELDS: SettlementField[] = ['belediye'];
+const UPPERCASE_FIELDS: SettlementField[] = ['il', 'ilce', 'belediye', 'mahalle'];
+// Mahalle names are uppercase followed by a mixed-case suffix, e.g. "BÜYÜKÇILDIRIM Mah."
+const MAHALLE_SUFFIX = /\s+(Mah\.|Mahallesi|Köyü|Beldesi)$/;
+
+/**
+ * Thrown when a list file can't be used. The message is Turkish for the Node tools;
+ * the interface shows dataErrorMessage in its own language.
+ */
+export class DataValidationError extends Error {
+  code: DataErrorCode;
+  params: Record<string, string | number>;
+  // Present when the file was readable but its rows were rejected
+  report?: DataQualityReport;
+
+  constructor(code: DataErrorCode, params: Record<string, string | number> = {}, report?: DataQualityReport) {
+    super(translate(DEFAULT_LOCALE, `error.data.${code}`, params));
+    this.name = 'DataValidationError';
+    this.code = code;
+    this.params = params;
+    this.report = report;
+  }
+}
+
+export const dataErrorMessage = (locale: Locale, err: DataValidationError): string =>
+  translate(locale, `error.data.${err.code}`, err.params);
+
+export const issueMessage = (locale: Locale, issue: DataIssue): string =>
+  translate(locale, `issue.message.${issue.code}`, {
+    field: issue.field ? translate(locale, `field.${issue.field}`) : '',
+    ...issue.params
+  });
+
+export interface ValidationResult {
+  // Rows without errors, in file order
+  data: YerlesimYeri[];
+  report: DataQualityReport;
+}
+
+/**
+ * Checks every row of a parsed data.json against the YerlesimYeri schema.
+ * Errors (missing fields, wrong types, unknown durum, duplicates) quarantine the row; when two rows
+ * of the same settlement disagree on the durum, both are quarantined since neither can be trusted;
+ * warnings (whitespace, casing) are reported but the row is kept unchanged.
+ * The optional detail fields (kod, nufus, referansTarihi, dayanak) only raise warnings;
+ * an unusable detail value is dropped and the row kept.
+ * Throws DataValidationError when the file is not a list at all.
+ * rowNumbers replaces the 1-based list positions in the report, e.g. with spreadsheet rows.
+ */
+export const validateDataset = (raw: unknown, rowNumbers?: number[]): ValidationResult => {
+  if (!Array.isArray(raw)) {
+    throw new DataValidationError('liste-degil');
+  }
+
+  const issues: DataIssue[] = [];
+  const quarantined = new Set<number>();
+  // Rows that passed so far; a later conflicting duplicate can still quarantine them
+  const accepted: { row: number; item: YerlesimYeri }[] = [];
+  // Normalized il/ilçe/belediye/mahalle key -> first row and its durum
+  const seen = new Map<string, { row: number; durum: string; conflictReported: boolean }>();
+
+  raw.forEach((entry, index) => {
+    const row = rowNumbers ? rowNumbers[index] : index + 1;
+    const addIssue = (issue: Omit<DataIssue, 'row'>) => {
+      issues.push({ row, ...issue });
+      if (issue.severity === 'hata') quarantined.add(row);
+    };
+
+    if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+      addIssue({ type: 'gecersiz-kayit', severity: 'hata', code: 'kayit-nesne-degil' });
+      return;
+    }
+
+    const source = entry as Record<string, unknown>;
+    const item = {} as YerlesimYeri;
+
+    FIELDS.forEach(field => {
+      const value = source[field];
+
+      if (value === undefined || value === null || value === '') {
+        item[field] = '';
+        if (!OPTIONAL_FIELDS.includes(field)) {
+          addIssue({ type: 'eksik-alan', severity: 'hata', field, code: 'alan-eksik' });
+        }
+        return;
+      }
+
+      if (typeof value === 'number') {
+        item[field] = String(value);
+        addIssue({ type: 'gecersiz-tip', severity: 'uyari', field, value: String(value), code: 'sayi-girilmis' });
+      } else if (typeof value !== 'string') {
+        item[field] = '';
+        addIssue({ type: 'gecersiz-tip', severity: 'hata', field, code: 'metin-degil' });
+        return;
+      } else {
+        item[field] = value;
+      }
+
+      const text = item[field];
+      if (text !== text.trim() || /\s{2,}/.test(text)) {
+        addIssue({ type: 'bosluk', severity: 'uyari', field, value: text, code: 'fazla-bosluk' });
+      }
+
+      if (UPPERCASE_FIELDS.includes(field)) {
+        const name = field === 'mahalle' ? text.replace(MAHALLE_SUFFIX, '') : text;
+        if (name !== name.toLocaleUpperCase('tr-TR')) {
+          addIssue({ type: 'harf-buyuklugu', severity: 'uyari', field, value: text, code: 'buyuk-harf-degil' });
+        }
+      }
+    });
+
+    DETAIL_FIELDS.forEach(field => {
+      const value = source[field];
+      if (value === undefined || value === null || value === '') return;
+
+      if (field === 'nufus') {
+        const count = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+        if (typeof count === 'number' && Number.isInteger(count) && count >= 0) {
+          item.nufus = count;
+          if (typeof value === 'string') {
+            addIssue({ type: 'gecersiz-tip', severity: 'uyari', field, value, code: 'metin-girilmis' });
+          }
+        } else {
+          addIssue({ type: 'gecersiz-tip', severity: 'uyari', field, value: String(value), code: 'tam-sayi-degil' });
+        }
+      } else if (typeof value === 'string' || typeof value === 'number') {
+        item[field] = String(value);
+      } else {
+        addIssue({ type: 'gecersiz-tip', severity: 'uyari', field, code: 'detay-metin-degil' });
+      }
+    });
+
+    if (item.durum && !DURUM_VALUES.includes(item.durum)) {
+      addIssue({
+        type: 'bilinmeyen-durum',
+        severity: 'hata',
+        field: 'durum',
+        value: item.durum,
+        code: 'bilinmeyen-durum',
+        params: { kirsal: DURUM_VALUES[0], kirsalDegil: DURUM_VALUES[1] }
+      });
+    }
+
+    if (item.il && item.ilce && item.mahalle) {
+      // Case and Turkish characters are folded, but suffixes are kept: "X Mah." and "X Köyü" are different places
+      const key = [item.il, item.ilce, item.belediye, item.mahalle]
+        .map(value => normalizeTurkish(value).replace(/\s+/g, ' ').trim())
+        .join('|');
+      const first = seen.get(key);
+      if (first) {
+        const conflicting = first.durum !== item.durum;
+        addIssue({
+          type: 'mukerrer',
+          severity: 'hata',
+          value: item.mahalle,
+          code: conflicting ? 'mukerrer-farkli-durum' : 'mukerrer',
+          params: { row: String(first.row) }
+        });
+        if (conflicting && !first.conflictReported) {
+          first.conflictReported = true;
+          issues.push({
+            row: first.row,
+            type: 'mukerrer',
+            severity: 'hata',
+            value: item.mahalle,
+            code: 'mukerrer-farkli-durum',
+            params: { row: String(row) }
+          });
+          quarantined.add(first.row);
+        }
+      } else {
+        seen.set(key, { row, durum: item.durum, conflictReported: false });
+      }
+    }
+
+    if (!quarantined.has(row)) {
+      accepted.push({ row, item });
+    }
+  });
+
+  const data = accepted.filter(({ row }) => !quarantined.has(row)).map(({ item }) => item);
+  // Issues added for an earlier row (conflicting duplicates) are put back in row order
+  issues.sort((a, b) => a.row - b.row);
+
+  return {
+    data,
+    report: {
+      totalRows: raw.length,
+      validRows: data.length,
+      quarantinedRows: Array.from(quarantined).sort((a, b) => a - b),
+      issues
+    }
+  };
+};
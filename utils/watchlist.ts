@@ -0,0 +1,207 @@
+import { Filters, Locale, SavedSearch, SortKey, WatchCheck, WatchedSettlement, Watchlist, WatchlistErrorCode, WatchlistFile, YerlesimYeri } from '../types';
+import { settlementKey } from './datasetDiff';
+import { EMPTY_FILTERS } from './filters';
+import { normalizeSettlementName } from './fuzzyMatch';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { parseSort } from './sorting';
+
+const STORAGE_KEY = 'takipListesi';
+
+export const EMPTY_WATCHLIST: Watchlist = { settlements: [], searches: [] };
+
+// The message is Turkish; the interface shows watchlistErrorMessage in its own language
+export class WatchlistFormatError extends Error {
+  code: WatchlistErrorCode;
+  params: Record<string, string>;
+
+  constructor(code: WatchlistErrorCode, params: Record<string, string> = {}) {
+    super(translate(DEFAULT_LOCALE, `watch.error.${code}`, params));
+    this.name = 'WatchlistFormatError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export const watchlistErrorMessage = (locale: Locale, err: WatchlistFormatError): string =>
+  translate(locale, `watch.error.${err.code}`, err.params);
+
+export const createSearchId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Watched settlements are matched by normalized names, like rows in the list comparison
+export const watchKey = settlementKey;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readSettlement = (raw: unknown): WatchedSettlement | null => {
+  if (!isRecord(raw) || !text(raw.il) || !text(raw.ilce) || !text(raw.mahalle)) return null;
+  return {
+    il: text(raw.il),
+    ilce: text(raw.ilce),
+    belediye: text(raw.belediye),
+    mahalle: text(raw.mahalle),
+    durum: text(raw.durum),
+    // Entries saved before lists could be switched belong to the default list
+    dataset: text(raw.dataset),
+    note: text(raw.note),
+    addedAt: text(raw.addedAt) || new Date().toISOString()
+  };
+};
+
+const readSearch = (raw: unknown): SavedSearch | null => {
+  if (!isRecord(raw) || !text(raw.name)) return null;
+  const filters: Filters = { ...EMPTY_FILTERS };
+  if (isRecord(raw.filters)) {
+    const rawFilters = raw.filters;
+    (Object.keys(EMPTY_FILTERS) as (keyof Filters)[]).forEach(key => {
+      filters[key] = text(rawFilters[key]);
+    });
+  }
+  // Goes through the URL format so unknown fields and directions are dropped the same way
+  const sort: SortKey[] = Array.isArray(raw.sort)
+    ? parseSort(raw.sort.map(key => (isRecord(key) ? `${key.direction === 'desc' ? '-' : ''}${text(key.field)}` : '')).join(','))
+    : [];
+  return {
+    id: text(raw.id) || createSearchId(),
+    name: text(raw.name),
+    searchTerm: text(raw.searchTerm),
+    filters,
+    sort,
+    note: text(raw.note),
+    createdAt: text(raw.createdAt) || new Date().toISOString()
+  };
+};
+
+// Entries that can't be read are dropped rather than failing the whole list
+const readWatchlist = (raw: unknown): Watchlist => {
+  if (!isRecord(raw)) return EMPTY_WATCHLIST;
+  const settlements = Array.isArray(raw.settlements) ? raw.settlements.map(readSettlement) : [];
+  const searches = Array.isArray(raw.searches) ? raw.searches.map(readSearch) : [];
+  return {
+    settlements: settlements.filter((item): item is WatchedSettlement => item !== null),
+    searches: searches.filter((item): item is SavedSearch => item !== null)
+  };
+};
+
+// Watchlist kept on this device; an unreadable entry starts an empty list
+export const loadWatchlist = (): Watchlist => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? readWatchlist(JSON.parse(stored)) : EMPTY_WATCHLIST;
+  } catch {
+    return EMPTY_WATCHLIST;
+  }
+};
+
+export const saveWatchlist = (watchlist: Watchlist) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlist));
+  } catch (err) {
+    console.warn('Takip listesi kaydedilemedi.', err);
+  }
+};
+
+export const serializeWatchlist = (watchlist: Watchlist): string => {
+  const file: WatchlistFile = {
+    format: 'kirsal-alan-takip',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    ...watchlist
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a file written by serializeWatchlist. Throws WatchlistFormatError when the
+ * file is not a watchlist at all; individual unreadable entries are skipped.
+ */
+export const parseWatchlistFile = (content: string): Watchlist => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new WatchlistFormatError('gecersiz-json');
+  }
+  if (!isRecord(raw) || raw.format !== 'kirsal-alan-takip') {
+    throw new WatchlistFormatError('takip-listesi-degil');
+  }
+  if (raw.version !== 1) {
+    throw new WatchlistFormatError('surum-desteklenmiyor', { version: String(raw.version) });
+  }
+  return readWatchlist(raw);
+};
+
+/**
+ * Adds the imported entries to the current list. A settlement or search that is already
+ * present keeps its status, and gets the imported note appended when the notes differ.
+ */
+export const mergeWatchlists = (current: Watchlist, imported: Watchlist): { watchlist: Watchlist; added: number } => {
+  let added = 0;
+  const mergeNote = (note: string, other: string) =>
+    !other || note.includes(other) ? note : note ? `${note}\n${other}` : other;
+
+  const settlements = [...current.settlements];
+  const indexByKey = new Map(settlements.map((item, index) => [watchKey(item), index]));
+  imported.settlements.forEach(item => {
+    const index = indexByKey.get(watchKey(item));
+    if (index === undefined) {
+      indexByKey.set(watchKey(item), settlements.length);
+      settlements.push(item);
+      added++;
+    } else {
+      settlements[index] = { ...settlements[index], note: mergeNote(settlements[index].note, item.note) };
+    }
+  });
+
+  const searches = [...current.searches];
+  imported.searches.forEach(search => {
+    const index = searches.findIndex(existing => existing.id === search.id);
+    if (index === -1) {
+      searches.push(search);
+      added++;
+    } else {
+      searches[index] = { ...searches[index], note: mergeNote(searches[index].note, search.note) };
+    }
+  });
+
+  return { watchlist: { settlements, searches }, added };
+};
+
+/**
+ * Looks up each watched settlement in the loaded list. With a sharded list only some
+ * ils are loaded; settlements of the other ils are reported as 'yuklenmedi', not missing.
+ * Statuses are only compared within the list (`dataset`) they were watched on; on another
+ * list of the registry a different status is expected and reported as 'baska-liste'.
+ */
+export const checkWatchlist = (
+  settlements: WatchedSettlement[],
+  data: YerlesimYeri[],
+  allLoaded: boolean,
+  dataset: string
+): Map<string, WatchCheck> => {
+  const byKey = new Map<string, YerlesimYeri>();
+  const loadedIls = new Set<string>();
+  data.forEach(item => {
+    const key = settlementKey(item);
+    if (!byKey.has(key)) byKey.set(key, item);
+    loadedIls.add(normalizeSettlementName(item.il));
+  });
+
+  const result = new Map<string, WatchCheck>();
+  settlements.forEach(item => {
+    const key = watchKey(item);
+    const current = byKey.get(key);
+    if (current && item.dataset !== dataset) {
+      result.set(key, { state: 'baska-liste', current });
+    } else if (current) {
+      result.set(key, { state: current.durum === item.durum ? 'ayni' : 'degisti', current });
+    } else {
+      const loaded = allLoaded || loadedIls.has(normalizeSettlementName(item.il));
+      result.set(key, { state: loaded ? 'bulunamadi' : 'yuklenmedi' });
+    }
+  });
+  return result;
+};
@@ -0,0 +1,86 @@
+import { readZip } from './unzip';
+
+/**
+ * Reads the first worksheet of an .xlsx file into rows of cell text, the reading
+ * counterpart of xlsx.ts. Only what the official lists use is supported: shared and
+ * inline strings, numbers and booleans. Formulas yield their cached value; styles are ignored.
+ */
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+  });
+
+// Concatenates the <t> runs of a rich-text string, skipping phonetic hints
+const textContent = (xml: string): string =>
+  Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+const attribute = (attributes: string, name: string): string | undefined =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// "C12" -> 2
+const columnIndex = (reference: string): number => {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) index = index * 26 + char.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+// Follows workbook.xml and its relationships to the first sheet; falls back to the usual path
+const firstSheetPath = (workbook: string | null, relationships: string | null): string => {
+  const sheetId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = sheetId && relationships?.match(new RegExp(`<Relationship\\b[^>]*\\bId="${sheetId}"[^>]*\\bTarget="([^"]+)"`))?.[1]
+    || sheetId && relationships?.match(new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${sheetId}"`))?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsx = async (data: Uint8Array): Promise<string[][]> => {
+  const entries = readZip(data);
+  const decoder = new TextDecoder();
+  const readText = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? decoder.decode(await entry.read()) : null;
+  };
+
+  const sheetPath = firstSheetPath(await readText('xl/workbook.xml'), await readText('xl/_rels/workbook.xml.rels'));
+  const sheet = await readText(sheetPath);
+  if (sheet === null) throw new Error('Excel dosyasında çalışma sayfası bulunamadı.');
+
+  const sharedXml = await readText('xl/sharedStrings.xml');
+  const shared = sharedXml ? Array.from(sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), match => textContent(match[1])) : [];
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    // Keep spreadsheet row numbers: rows[n - 1] is row n, skipped rows stay empty
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    let next = 0;
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = attribute(attributes, 'r');
+      const column = reference ? columnIndex(reference) : next;
+      const type = attribute(attributes, 't');
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = shared[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textContent(content.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+      else if (type === 'b') text = value === '1' ? 'DOĞRU' : 'YANLIŞ';
+      else if (value !== undefined) text = decodeXml(value);
+
+      while (row.length < column) row.push('');
+      row[column] = text;
+      next = column + 1;
+    }
+
+    rows[rowNumber - 1] = row;
+  }
+
+  return rows;
+};
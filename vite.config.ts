@@ -1,6 +1,30 @@
-import { defineConfig } from 'vite';
+import { Plugin, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Read by public/sw.js when it installs
+const PRECACHE_MANIFEST = 'precache-manifest.json';
+
+// Lists the hashed scripts and styles of the build, which the service worker can't know by name
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const assets = Object.keys(bundle)
+      .filter(fileName => !fileName.endsWith('.html'))
+      .map(fileName => `/${fileName}`);
+    this.emitFile({ type: 'asset', fileName: PRECACHE_MANIFEST, source: JSON.stringify(assets) });
+  }
+});
+
+// Two pages: the app and the embeddable widget for partner websites (see utils/embed.ts)
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  build: {
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        embed: 'embed.html'
+      }
+    }
+  }
 });
\ No newline at end of file
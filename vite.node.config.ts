@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Bundles the Node tools (command-line lookup and HTTP API) into dist-node/;
+// see cli/kirsal-alan.mjs and server/kirsal-alan-api.mjs
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    copyPublicDir: false,
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        kirsalAlan: 'cli/kirsalAlan.ts',
+        api: 'server/api.ts'
+      }
+    }
+  }
+});
@@ -0,0 +1,48 @@
+import { SearchQuery, SearchResult, YerlesimYeri } from '../types';
+import { SearchIndex, createSearchIndex } from '../utils/searchIndex';
+
+export type SearchWorkerRequest =
+  | { type: 'load'; data: YerlesimYeri[] }
+  | { type: 'query'; requestId: number; query: SearchQuery };
+
+export type SearchWorkerResponse =
+  | { type: 'result'; requestId: number; result: SearchResult }
+  | { type: 'error'; requestId: number; message: string };
+
+// Worker global scope (the project's lib settings only include DOM typings)
+const ctx = self as unknown as Worker;
+
+let index: SearchIndex | null = null;
+// Why the last dataset couldn't be indexed; queries are answered with it until the next load
+let loadError: string | null = null;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+ctx.onmessage = (e: MessageEvent<SearchWorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'load') {
+    try {
+      index = createSearchIndex(message.data);
+      loadError = null;
+    } catch (err) {
+      index = null;
+      loadError = errorMessage(err);
+    }
+    return;
+  }
+
+  try {
+    if (loadError) throw new Error(`Arama dizini oluşturulamadı: ${loadError}`);
+    const result = (index || createSearchIndex([])).query(message.query);
+    const response: SearchWorkerResponse = { type: 'result', requestId: message.requestId, result };
+    ctx.postMessage(response, [result.ids.buffer]);
+  } catch (err) {
+    const response: SearchWorkerResponse = {
+      type: 'error',
+      requestId: message.requestId,
+      message: errorMessage(err)
+    };
+    ctx.postMessage(response);
+  }
+};